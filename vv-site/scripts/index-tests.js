@@ -0,0 +1,200 @@
+// Builds src/testManifest.json from the //Tn: and !Tn: tag lines in src/Tests,
+// records the OpenACC directives, clauses and acc_* calls each sub-test uses,
+// and copies the sources to public/Tests for the log viewer's source pane.
+// Run automatically before `npm start` and `npm run build`.
+const fs = require('fs');
+const path = require('path');
+
+const testsDir = path.join(__dirname, '..', 'src', 'Tests');
+const manifestPath = path.join(__dirname, '..', 'src', 'testManifest.json');
+const publicTestsDir = path.join(__dirname, '..', 'public', 'Tests');
+
+const TAG_LINE = /^\s*(?:\/\/|!)(T\d+):(.*)$/;
+const VERSION_FIELD = /V:\s*(\d+\.\d+(?:-\d+\.\d+)?)/;
+const GUARD_LINE = /^\s*#\s*ifndef\s+(T\d+)\b/;
+const IF_LINE = /^\s*#\s*if/;
+const ENDIF_LINE = /^\s*#\s*endif/;
+const PRAGMA_LINE = /^\s*#\s*pragma\s+acc\b(.*)$/i;
+const SENTINEL_LINE = /^\s*!\$acc&?(.*)$/i;
+const API_CALL = /\b(acc_\w+)\s*\(/gi;
+const COMMENT_LINE = /^\s*(?:\/\/|!(?!\$acc))/i;
+
+// Longest first, so "parallel loop" wins over "parallel".
+const DIRECTIVES = [
+  'parallel loop', 'kernels loop', 'serial loop', 'enter data', 'exit data',
+  'host_data', 'parallel', 'kernels', 'serial', 'data', 'loop', 'update', 'wait',
+  'declare', 'routine', 'atomic', 'cache', 'init', 'shutdown', 'set',
+];
+
+function languageOf(fileName) {
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === '.c') return 'C';
+  if (ext === '.cpp') return 'CPP';
+  if (ext === '.f90') return 'F90';
+  return null;
+}
+
+// Finds the #endif closing the #ifndef Tn block a tag line sits in.
+function findBlockEnd(lines, start) {
+  let depth = 0;
+  for (let i = start; i < lines.length; i++) {
+    if (IF_LINE.test(lines[i])) depth++;
+    else if (ENDIF_LINE.test(lines[i])) {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return lines.length - 1;
+}
+
+// Joins continuation lines: a trailing backslash in C and C++, a trailing &
+// in Fortran (the next line repeats the !$acc sentinel, optionally with &).
+function directiveLines(lines) {
+  const found = [];
+  for (let i = 0; i < lines.length; i++) {
+    const pragma = PRAGMA_LINE.exec(lines[i]);
+    const sentinel = pragma ? null : SENTINEL_LINE.exec(lines[i]);
+    if (!pragma && !sentinel) continue;
+
+    const start = i;
+    const stripComment = (line) => (pragma ? line.replace(/\/\/.*$|\/\*.*?\*\//g, '') : line.replace(/!.*$/, ''));
+    let text = stripComment((pragma || sentinel)[1]);
+    const continues = pragma ? /\\\s*$/ : /&\s*$/;
+    while (continues.test(text) && i + 1 < lines.length) {
+      i++;
+      const next = pragma ? lines[i] : (SENTINEL_LINE.exec(lines[i]) || [null, lines[i]])[1];
+      text = text.replace(continues, ' ') + stripComment(next);
+    }
+    found.push({ line: start, text: text.trim().toLowerCase() });
+  }
+  return found;
+}
+
+// Names the directive and the clauses after it. Clause arguments are skipped
+// by tracking parentheses, so only the bare clause names are kept; the
+// directive's own argument (wait(1), cache(a), routine(f)) is dropped too.
+function parseDirective(text) {
+  if (text.startsWith('end ')) return null;
+  const directive = DIRECTIVES.find((d) => text === d || new RegExp(`^${d}\\b`).test(text));
+  if (!directive) return null;
+
+  const clauses = [];
+  let depth = 0;
+  let word = '';
+  const rest = text.slice(directive.length).replace(/^\s*\(/, () => {
+    depth = 1;
+    return '';
+  });
+  for (const ch of rest + ' ') {
+    if (depth === 0 && /\w/.test(ch)) {
+      word += ch;
+      continue;
+    }
+    if (word) clauses.push(word);
+    word = '';
+    if (ch === '(') depth++;
+    else if (ch === ')') depth = Math.max(0, depth - 1);
+  }
+  return { directive, clauses };
+}
+
+function sortedUnique(values) {
+  return Array.from(new Set(values)).sort();
+}
+
+// What the lines in the given 1-based, inclusive ranges use.
+function usageIn(lines, directives, ranges) {
+  const usage = { directives: [], clauses: [], apiCalls: [] };
+  const inRange = (line) => ranges.some(([first, last]) => line >= first && line <= last);
+  for (const { line, text } of directives) {
+    if (!inRange(line + 1)) continue;
+    const parsed = parseDirective(text);
+    if (!parsed) continue;
+    usage.directives.push(parsed.directive);
+    usage.clauses.push(...parsed.clauses);
+  }
+  for (let i = 0; i < lines.length; i++) {
+    if (!inRange(i + 1) || COMMENT_LINE.test(lines[i])) continue;
+    for (const match of lines[i].matchAll(API_CALL)) usage.apiCalls.push(match[1].toLowerCase());
+  }
+  return {
+    directives: sortedUnique(usage.directives),
+    clauses: sortedUnique(usage.clauses),
+    apiCalls: sortedUnique(usage.apiCalls),
+  };
+}
+
+function indexFile(fileName) {
+  const lines = fs.readFileSync(path.join(testsDir, fileName), 'utf8').split(/\r?\n/);
+  const subtests = [];
+  const directives = directiveLines(lines);
+
+  lines.forEach((line, i) => {
+    const match = TAG_LINE.exec(line);
+    if (!match) return;
+
+    // The #ifndef guard decides which failcode bit the sub-test owns; a few
+    // tag lines were copy-pasted and repeat T1, so prefer the guard's id.
+    const guard = i > 0 ? GUARD_LINE.exec(lines[i - 1]) : null;
+    // Tags are normalised to kebab-case (some files write data_region) and the
+    // version is matched anywhere, since a few lines miss the comma before V:.
+    const version = VERSION_FIELD.exec(match[2]);
+    const tags = match[2]
+      .replace(VERSION_FIELD, '')
+      .split(',')
+      .map((f) => f.trim().toLowerCase().replace(/_/g, '-'))
+      .filter(Boolean);
+
+    subtests.push({
+      id: guard ? guard[1] : match[1],
+      tags,
+      version: version ? version[1] : null,
+      line: i + 1,
+      endLine: findBlockEnd(lines, i + 1) + 1,
+    });
+  });
+
+  // File-level declare and routine directives sit outside the #ifndef blocks
+  // but are compiled into every sub-test, so each sub-test gets them too.
+  const outside = [];
+  let from = 1;
+  for (const subtest of subtests) {
+    if (subtest.line > from) outside.push([from, subtest.line - 1]);
+    from = Math.max(from, subtest.endLine + 1);
+  }
+  outside.push([from, lines.length]);
+  for (const subtest of subtests) {
+    Object.assign(subtest, usageIn(lines, directives, [[subtest.line, subtest.endLine], ...outside]));
+  }
+
+  return subtests;
+}
+
+function buildManifest() {
+  const manifest = {};
+  const files = fs.readdirSync(testsDir).filter(languageOf).sort();
+
+  for (const fileName of files) {
+    const subtests = indexFile(fileName);
+    if (subtests.length === 0) continue;
+    manifest[fileName] = { language: languageOf(fileName), subtests };
+  }
+
+  return manifest;
+}
+
+// The copy is regenerated each time and is not committed.
+function publishSources(fileNames) {
+  fs.rmSync(publicTestsDir, { recursive: true, force: true });
+  fs.mkdirSync(publicTestsDir, { recursive: true });
+  for (const fileName of fileNames) {
+    fs.copyFileSync(path.join(testsDir, fileName), path.join(publicTestsDir, fileName));
+  }
+}
+
+const manifest = buildManifest();
+publishSources(fs.readdirSync(testsDir).filter(languageOf));
+const entries = Object.entries(manifest).map(([fileName, entry]) => `  ${JSON.stringify(fileName)}: ${JSON.stringify(entry)}`);
+fs.writeFileSync(manifestPath, `{\n${entries.join(',\n')}\n}\n`);
+console.log(`Indexed ${Object.keys(manifest).length} test files into ${path.relative(process.cwd(), manifestPath)}`);
+console.log(`Copied their sources to ${path.relative(process.cwd(), publicTestsDir)}`);
@@ -1,16 +1,65 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import {
   BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer,
 } from 'recharts';
 import { Routes, Route, useNavigate } from 'react-router-dom';
 import DetailsPage from './DetailsPage';
-import { getCompilerStatus, getRuntimeStatus } from './errorParser';
+import CoveragePage from './CoveragePage';
+import ConsistencyPage from './ConsistencyPage';
+import UsagePage from './UsagePage';
+import RuntimeApiPage from './RuntimeApiPage';
+import TestPage from './TestPage';
+import DiffPage from './DiffPage';
+import TrendsPage from './TrendsPage';
+import RunConfigurationPanel from './RunConfigurationPanel';
+import FailureCausesTable from './FailureCausesTable';
+import RulesPage from './RulesPage';
+import BaselinePage from './BaselinePage';
+import BaselineSummary from './BaselineSummary';
+import { NormalizedRun, RESULT_FILE_TYPES, Summary, readFileText } from './resultsParser';
+import { conformance, summarizeForSpec } from './specConformance';
+import { ComparisonDatum, ComparisonEntry, buildComparisonData, seriesColor } from './comparison';
+import { getSpecVersions } from './testIndex';
+import { getCompilerLabel } from './runConfiguration';
+import { applyBaseline, createBaseline, getBaseline } from './baseline';
+import { downloadText } from './download';
+import { writeWorkbook } from './excelExport';
+import { buildResultsWorkbook } from './resultsWorkbook';
+import SessionPicker from './SessionPicker';
+import {
+  SessionInfo, StorageUsage, deleteSession, getCurrentSessionId, getStorageUsage, listSessions, loadSession,
+  renameSession, saveSession, setCurrentSessionId, updateSession,
+} from './sessions';
+import MergePanel from './MergePanel';
+import { MergePolicy, MergeResult, mergeResults } from './merge';
+import { SeriesEntry } from './trends';
+import {
+  BackgroundJob, ParseProgress, ParsedResults, isAbortError, parseInBackground, parseWithoutLogs, readFileWithProgress,
+} from './backgroundParse';
+import ParseProgressBar from './ParseProgressBar';
+import ValidationPanel from './ValidationPanel';
 
-interface Summary {
-  C: { total: number; pass: number; fail: number };
-  CPP: { total: number; pass: number; fail: number };
-  F90: { total: number; pass: number; fail: number };
-  failures: { name: string; reason: string }[];
+function formatPercent(rate: number | null): string {
+  return rate === null ? 'n/a' : `${(rate * 100).toFixed(1)}%`;
+}
+
+// Parses the files loaded for comparison off the main thread, one at a time.
+// Comparisons need no logs, so each worker is stopped once its run is back.
+// With `lenient` a file that does not parse gives null instead of an error.
+function parseComparisonFiles(fileNames: string[], texts: string[], lenient = false): Promise<(ParsedResults | null)[]> {
+  return texts.reduce<Promise<(ParsedResults | null)[]>>((previous, text, i) => previous.then((done) => {
+    const job = parseWithoutLogs(text, () => undefined);
+    return job.promise
+      .then(
+        (parsed): ParsedResults | null => parsed,
+        (e: Error) => {
+          if (lenient) return null;
+          throw new Error(`${fileNames[i]}: ${e.message}`);
+        }
+      )
+      .finally(job.cancel)
+      .then((parsed) => [...done, parsed]);
+  }), Promise.resolve([]));
 }
 
 interface HomePageProps {
@@ -18,266 +67,305 @@ interface HomePageProps {
   setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
 }
 
-function parseJSONResultsHelper(
-  fileText: string,
-  mode: 'compiler' | 'runtime',
-  setSummary: React.Dispatch<React.SetStateAction<Summary | null>>,
-  sortTestNames: (testNames: string[]) => string[]
-) {
-  const sanitized = fileText.trim().replace(/^var jsonResults\s*=\s*/, '');
-  const parsed = JSON.parse(sanitized);
-
-  let runs: { [key: string]: any[] } = {};
-
-  // === Case 1: OpenACC format (has "runs" key) ===
-  if (parsed.runs) {
-    runs = parsed.runs as { [key: string]: any[] };
-  }
-
-  // === Case 2: (has "results" key) ===
-  else if (parsed.results && typeof parsed.results === 'object') {
-    runs = Object.fromEntries(
-      Object.entries(parsed.results).map(([key, value]) => [
-        key,
-        Array.isArray(value) ? value : [value]
-      ])
-    );
-  }
-
-  // === Case 3: OpenMP flat structure (keys are filenames) ===
-  else if (!Array.isArray(parsed)) {
-    runs = Object.fromEntries(
-      Object.entries(parsed)
-        .filter(([key]) => key !== 'testsuite_configuration' && typeof parsed[key] === 'object')
-        .map(([key, value]) => [key, Array.isArray(value) ? value : [value]])
-    );
-  }
-
-  // === Case 4: Flat array of objects (with testname/test/name) ===
-  else if (Array.isArray(parsed)) {
-    for (const item of parsed) {
-      const name = item.testname || item.test || item.name;
-      if (!name) continue;
-      if (!runs[name]) runs[name] = [];
-      runs[name].push(item);
-    }
-  }
-
-  // === Summary initialization ===
-  const summaryCounts: Summary = {
-    C: { total: 0, pass: 0, fail: 0 },
-    CPP: { total: 0, pass: 0, fail: 0 },
-    F90: { total: 0, pass: 0, fail: 0 },
-    failures: [],
-  };
-
-  const sortedNames = sortTestNames(Object.keys(runs));
-
-  for (const testName of sortedNames) {
-    const runEntry = runs[testName];
-    const runArray = Array.isArray(runEntry) ? runEntry : [runEntry];
-    if (runArray.length === 0) continue;
-
-    const nameLower = testName.toLowerCase();
-    let lang: 'C' | 'CPP' | 'F90' | null = null;
-    if (nameLower.endsWith('.c')) lang = 'C';
-    else if (nameLower.endsWith('.cpp')) lang = 'CPP';
-    else if (nameLower.endsWith('.f90')) lang = 'F90';
-    if (!lang) continue;
-
-    summaryCounts[lang].total++;
-
-    const firstCompilerFail = runArray.find((run) => getCompilerStatus(run).result !== 0);
-    const firstRuntimeFail = runArray.find((run) => {
-      const runtimeResult = getRuntimeStatus(run).result;
-      return typeof runtimeResult === 'number'
-        ? runtimeResult !== 0
-        : typeof runtimeResult === 'string'
-          ? runtimeResult.toLowerCase() !== 'pass'
-          : true;
-    });
-
-    if (mode === 'compiler') {
-      if (!firstCompilerFail) {
-        summaryCounts[lang].pass++;
-      } else {
-        summaryCounts[lang].fail++;
-        const reason = getCompilerStatus(firstCompilerFail).reason || 'Unknown';
-        summaryCounts.failures.push({ name: testName, reason });
-      }
-    } else {
-      if (firstCompilerFail) continue;
-      if (!firstRuntimeFail) {
-        summaryCounts[lang].pass++;
-      } else {
-        summaryCounts[lang].fail++;
-        const reason = getRuntimeStatus(firstRuntimeFail).reason || 'Unknown';
-        summaryCounts.failures.push({ name: testName, reason });
-      }
-    }
-  }
-
-  setSummary(summaryCounts);
-}
-
-
-
 function HomePage({ darkMode, setDarkMode }: HomePageProps) {
-  const [summary, setSummary] = useState<Summary | null>(null);
+  const [results, setResults] = useState<NormalizedRun | null>(null);
   const [rawJsonText, setRawJsonText] = useState<string | null>(null);
-  const [comparisonFiles, setComparisonFiles] = useState<File[]>([]);
-  const [comparisonData, setComparisonData] = useState<any[]>([]);
+  const [comparisonFiles, setComparisonFiles] = useState<ComparisonEntry[]>([]);
+  const [comparisonData, setComparisonData] = useState<ComparisonDatum[]>([]);
   const [mode, setMode] = useState<'compiler' | 'runtime'>('compiler');
+  const [targetSpec, setTargetSpec] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadedFileName, setUploadedFileName] = useState('');
   const [graphGenerated, setGraphGenerated] = useState(false);
   const [graphMode, setGraphMode] = useState<'compiler' | 'runtime'>('compiler');
-  const [comparisonLabels, setComparisonLabels] = useState<string[]>(['Version 1', 'Version 2']);
+  const [diffPair, setDiffPair] = useState<[number, number]>([0, 1]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [shards, setShards] = useState<SeriesEntry[] | null>(null);
+  const [merge, setMerge] = useState<MergeResult | null>(null);
+  const [mergePolicy, setMergePolicy] = useState<MergePolicy>('latest');
+  // Summaries computed with the results in the worker, used when no target spec is chosen.
+  const [parsedSummaries, setParsedSummaries] = useState<ParsedResults['summaries'] | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [comparisonError, setComparisonError] = useState<string | null>(null);
+  const cancelLoad = useRef<() => void>(() => undefined);
   const navigate = useNavigate();
 
+const summary: Summary | null = useMemo(
+  () => {
+    if (!results) return null;
+    if (!targetSpec && parsedSummaries) return parsedSummaries[mode];
+    return summarizeForSpec(results, mode, targetSpec);
+  },
+  [results, parsedSummaries, mode, targetSpec]
+);
+
+const notCompiled = useMemo(
+  () => (results ? results.tests.filter((t) => t.language && t.compiler.result !== 0).length : 0),
+  [results]
+);
+
+// Only the tests counted in the summary are checked against the baseline.
+const baselineReport = useMemo(() => {
+  const baseline = getBaseline();
+  if (!results || !summary || baseline.length === 0) return null;
+  const outOfSpec = new Set(summary.outOfSpec.map((t) => t.name));
+  return applyBaseline(results.tests.filter((t) => !outOfSpec.has(t.name)), mode, baseline);
+}, [results, summary, mode]);
+
+// Reopens the session that was showing before a reload.
 useEffect(() => {
-  if (rawJsonText) {
-    parseJSONResultsHelper(rawJsonText, mode, setSummary, sortTestNames);
-  }
-}, [mode, rawJsonText]);
+  refreshSessions();
+  const current = getCurrentSessionId();
+  if (!current) return;
+  loadSession(current)
+    .then((stored) => {
+      if (stored) showSession(stored.info, stored.rawJson);
+      else setCurrentSessionId(null);
+    })
+    .catch((e: Error) => setSessionError(e.message));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+}, []);
 
 useEffect(() => {
-  if (graphGenerated && comparisonFiles.length === 2) {
+  if (graphGenerated && comparisonFiles.length >= 2) {
     generateComparisonGraph();
   }
   // eslint-disable-next-line react-hooks/exhaustive-deps
 }, [graphMode]);
 
-  function sortTestNames(testNames: string[]): string[] {
-    const langOrder: { [key: string]: number } = { c: 0, cpp: 1, f90: 2 };
-    return testNames.sort((a, b) => {
-      const [baseA, extA] = a.toLowerCase().split(/\.(?=[^.]+$)/);
-      const [baseB, extB] = b.toLowerCase().split(/\.(?=[^.]+$)/);
-      if (baseA < baseB) return -1;
-      if (baseA > baseB) return 1;
-      return (langOrder[extA] ?? 3) - (langOrder[extB] ?? 3);
-    });
+  function refreshSessions() {
+    listSessions()
+      .then((list) => {
+        setSessions(list);
+        return getStorageUsage(list).then(setStorageUsage);
+      })
+      .catch((e: Error) => setSessionError(e.message));
   }
 
-  function parseJSONResults(fileText: string) {
+  // Runs one step of loading a file with the progress bar and Cancel button
+  // showing. A cancelled load rejects with an AbortError and changes nothing.
+  function track<T>(job: BackgroundJob<T>): Promise<T> {
+    cancelLoad.current = job.cancel;
+    setLoadError(null);
+    return job.promise.finally(() => setProgress(null));
+  }
+
+  function reportLoadError(e: Error) {
+    setLoadError(isAbortError(e) ? 'Loading was cancelled.' : e.message);
+  }
+
+  function showParsed(fileText: string, { run, summaries }: ParsedResults) {
     setRawJsonText(fileText);
-    parseJSONResultsHelper(fileText, mode, setSummary, sortTestNames);
+    setResults(run);
+    setParsedSummaries(summaries);
   }
 
-  function handleFileUpload(event: React.ChangeEvent<HTMLInputElement>) {
-    const file = event.target.files?.[0];
-    if (file) {
-      setUploadedFileName(file.name);
-      const reader = new FileReader();
-      reader.onload = (e) => parseJSONResults(e.target?.result as string);
-      reader.readAsText(file);
-    }
+  function showSession(info: SessionInfo, fileText: string) {
+    track(parseInBackground(fileText, setProgress))
+      .then((parsed) => {
+        setShards(null);
+        setMerge(null);
+        setUploadedFileName(info.name);
+        showParsed(fileText, parsed);
+        setSessionId(info.id);
+        setCurrentSessionId(info.id);
+      })
+      .catch(reportLoadError);
   }
 
-  function clearFiles() {
-    setComparisonFiles([]);
-    setComparisonData([]);
-    if (fileInputRef.current) fileInputRef.current.value = '';
-    document.querySelectorAll("input[type='file']").forEach((input) => ((input as HTMLInputElement).value = ''));
+  // Every upload is saved as a session named after the file. The results show
+  // even when the browser cannot store them.
+  function parseJSONResults(fileName: string, fileText: string) {
+    track(parseInBackground(fileText, setProgress))
+      .then((parsed) => {
+        setUploadedFileName(fileName);
+        showParsed(fileText, parsed);
+        setSessionId(null);
+        const { tests, configuration } = parsed.run;
+        saveSession(fileName, fileText, { testCount: tests.length, compiler: getCompilerLabel(configuration) })
+          .then((info) => {
+            setSessionId(info.id);
+            setCurrentSessionId(info.id);
+            setSessionError(null);
+            refreshSessions();
+          })
+          .catch((e: Error) => setSessionError(e.message));
+      })
+      .catch(reportLoadError);
   }
 
-  function generateComparisonGraph() {
-  if (comparisonFiles.length !== 2 || !comparisonFiles[0] || !comparisonFiles[1]) return;
-
-  const summaries: any[] = [];
-
-  setComparisonLabels([
-    comparisonFiles[0]?.name || 'Version 1',
-    comparisonFiles[1]?.name || 'Version 2',
-  ]);
-
-  const processFile = (file: File, index: number) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const rawText = (e.target?.result as string)?.trim().replace(/^var jsonResults\s*=\s*/, '');
-      const parsed = JSON.parse(rawText);
-      const runs = parsed.runs || Object.fromEntries(
-        Object.entries(parsed).filter(([key]) => key !== 'testsuite_configuration')
-      );
-
-        const counts: {
-          C: { total: number; pass: number };
-          CPP: { total: number; pass: number };
-          F90: { total: number; pass: number };
-        } = {
-          C: { total: 0, pass: 0 },
-          CPP: { total: 0, pass: 0 },
-          F90: { total: 0, pass: 0 },
-        };
-
-      for (const testName of Object.keys(runs)) {
-        let runArray = runs[testName];
-
-        // Support both array and object formats
-        if (!Array.isArray(runArray)) {
-          if (typeof runArray === 'object' && runArray !== null) {
-            runArray = [runArray];
-          } else {
-            continue; // Invalid structure
-          }
+  // Several files picked together are shards of one run and are merged into a
+  // single session.
+  function handleFileUpload(event: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(event.target.files || []);
+    if (files.length === 0) return;
+    readFiles(files)
+      .then((texts) => {
+        if (files.length === 1) {
+          setShards(null);
+          setMerge(null);
+          parseJSONResults(files[0].name, texts[0]);
+          return;
         }
+        // One shard at a time, so only one file's runs are being parsed at once.
+        const entries: SeriesEntry[] = [];
+        return texts
+          .reduce<Promise<unknown>>((previous, text, i) => previous
+            .then(() => track(parseInBackground(text, setProgress)))
+            .then(({ run }) => entries.push({ fileName: files[i].name, results: run })), Promise.resolve())
+          .then(() => {
+            setShards(entries);
+            applyMerge(entries, mergePolicy, null);
+          });
+      })
+      .catch(reportLoadError);
+  }
 
-        if (runArray.length === 0) continue;
+  // Reads the files with one progress bar over their combined size.
+  function readFiles(files: File[]): Promise<string[]> {
+    const total = files.reduce((sum, file) => sum + file.size, 0);
+    const loaded = files.map(() => 0);
+    const jobs = files.map((file, i) => readFileWithProgress(file, (p) => {
+      loaded[i] = p.done;
+      setProgress({ phase: 'reading', done: loaded.reduce((a, b) => a + b, 0), total });
+    }));
+    return track({
+      promise: Promise.all(jobs.map((job) => job.promise)),
+      cancel: () => jobs.forEach((job) => job.cancel()),
+    });
+  }
 
-        const ext = testName.split('.').pop()?.toLowerCase();
-        let lang: 'C' | 'CPP' | 'F90' | null = null;
-        if (ext === 'c') lang = 'C';
-        else if (ext === 'cpp') lang = 'CPP';
-        else if (ext === 'f90') lang = 'F90';
-        if (!lang) continue;
+  // A policy change rewrites the merged session instead of adding another.
+  function applyMerge(entries: SeriesEntry[], policy: MergePolicy, mergedSessionId: string | null) {
+    const merged = mergeResults(entries, policy);
+    const text = JSON.stringify(merged.parsed);
+    setMerge(merged);
+    if (!mergedSessionId) {
+      parseJSONResults(`${merged.files[0]} + ${merged.files.length - 1} more`, text);
+      return;
+    }
+    track(parseInBackground(text, setProgress))
+      .then((parsed) => {
+        showParsed(text, parsed);
+        const { tests, configuration } = parsed.run;
+        updateSession(mergedSessionId, text, { testCount: tests.length, compiler: getCompilerLabel(configuration) })
+          .then(refreshSessions)
+          .catch((e: Error) => setSessionError(e.message));
+      })
+      .catch(reportLoadError);
+  }
 
-        let compilerPass = true;
-        let runtimePass = true;
+  function changeMergePolicy(policy: MergePolicy) {
+    setMergePolicy(policy);
+    if (shards) applyMerge(shards, policy, sessionId);
+  }
 
-        for (const run of runArray) {
-          const cStatus = getCompilerStatus(run);
-          const rStatus = getRuntimeStatus(run);
+  function openSession(info: SessionInfo) {
+    loadSession(info.id)
+      .then((stored) => {
+        if (stored) showSession(stored.info, stored.rawJson);
+        else refreshSessions();
+      })
+      .catch((e: Error) => setSessionError(e.message));
+  }
 
-          const compilerSucceeded = cStatus.result === 0 || run.compilation?.success === true;
-          if (!compilerSucceeded) compilerPass = false;
+  function removeSession(info: SessionInfo) {
+    deleteSession(info.id)
+      .then(() => {
+        if (info.id === sessionId) setSessionId(null);
+        refreshSessions();
+      })
+      .catch((e: Error) => setSessionError(e.message));
+  }
 
-          const runtimeSucceeded = rStatus.result === 0 || run.runtime?.success === true;
-          const isRuntimeFail = !runtimeSucceeded;
-          if (isRuntimeFail) runtimePass = false;
+  // Pages opened from here read the stored session, so their links survive a
+  // reload; without one the file text travels in navigation state.
+  function openPage(page: 'details' | 'coverage' | 'consistency' | 'usage' | 'runtime-api') {
+    if (sessionId) navigate(`/${page}/${sessionId}`);
+    else if (rawJsonText) navigate(`/${page}`, { state: { rawJson: rawJsonText } });
+  }
 
-          if (isRuntimeFail) runtimePass = false;
-        }
+  function clearFiles() {
+    setComparisonFiles([]);
+    setComparisonData([]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    document.querySelectorAll("input[type='file']").forEach((input) => ((input as HTMLInputElement).value = ''));
+  }
 
-        counts[lang].total++;
+  // Adding or removing a file invalidates the graph until it is regenerated.
+  // New files are labelled with the compiler from their testsuite_configuration
+  // when it names one, otherwise with the file name.
+  function addComparisonFiles(event: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    Promise.all(files.map(readFileText))
+      .then((texts) => parseComparisonFiles(files.map((file) => file.name), texts, true))
+      .then((parsed) => {
+        // Files that do not parse keep their file name as the label.
+        const entries = files.map((file, i) => ({ file, label: getCompilerLabel(parsed[i]?.run.configuration) || file.name }));
+        setComparisonFiles(prev => [...prev, ...entries]);
+        setComparisonData([]);
+        setComparisonError(null);
+      })
+      .catch((e: Error) => setComparisonError(e.message));
+  }
 
-        if (graphMode === 'compiler' && compilerPass) {
-          counts[lang].pass++;
-        }
+  function removeComparisonFile(index: number) {
+    setComparisonFiles(prev => prev.filter((_, i) => i !== index));
+    setComparisonData([]);
+    setDiffPair([0, 1]);
+  }
 
-        if (graphMode === 'runtime' && compilerPass && runtimePass) {
-          counts[lang].pass++;
-        }
+  function renameComparisonFile(index: number, label: string) {
+    setComparisonFiles(prev => prev.map((entry, i) => (i === index ? { ...entry, label } : entry)));
+  }
 
-      }
-
-      summaries[index] = counts;
-
-      if (summaries.filter(Boolean).length === 2) {
-        const chartData = ['C', 'CPP', 'F90'].map((lang) => ({
-          language: lang,
-          version1: `${summaries[0][lang].pass} / ${summaries[0][lang].total}`,
-          version2: `${summaries[1][lang].pass} / ${summaries[1][lang].total}`,
-          version1Pass: summaries[0][lang].pass,
-          version2Pass: summaries[1][lang].pass,
-        }));
-        setComparisonData(chartData);
-      }
-    };
-    reader.readAsText(file);
-  };
-
-  processFile(comparisonFiles[0], 0);
-  processFile(comparisonFiles[1], 1);
+  function viewTestDiff() {
+    const [base, head] = diffPair.map((i) => comparisonFiles[i]);
+    if (!base || !head) return;
+    Promise.all([readFileText(base.file), readFileText(head.file)])
+      .then(([baseJson, headJson]) => {
+        navigate('/diff', {
+          state: {
+            base: { label: base.label, rawJson: baseJson },
+            head: { label: head.label, rawJson: headJson },
+          },
+        });
+      })
+      .catch((e: Error) => setComparisonError(e.message));
+  }
+
+  // The workbook gets comparison sheets when two or more files are loaded
+  // for comparison.
+  function downloadWorkbook() {
+    if (!results) return;
+    const files = comparisonFiles.length >= 2 ? comparisonFiles : [];
+    Promise.all(files.map((entry) => readFileText(entry.file)))
+      .then((texts) => parseComparisonFiles(files.map((entry) => entry.file.name), texts))
+      .then((parsed) => {
+        const comparison = parsed.map((p, i) => ({ label: files[i].label, results: p!.run }));
+        writeWorkbook(
+          buildResultsWorkbook(results, { comparison }),
+          `${uploadedFileName.replace(/\.\w+$/, '') || 'results'}_Report`
+        );
+      })
+      .catch((e: Error) => setComparisonError(e.message));
+  }
+
+  function generateComparisonGraph() {
+  if (comparisonFiles.length < 2) return;
+
+  Promise.all(comparisonFiles.map((entry) => readFileText(entry.file)))
+    .then((texts) => parseComparisonFiles(comparisonFiles.map((entry) => entry.file.name), texts))
+    .then((parsed) => {
+      setComparisonData(buildComparisonData(parsed.map((p) => p!.summaries[graphMode])));
+      setComparisonError(null);
+    })
+    .catch((e: Error) => setComparisonError(e.message));
 }
  
   return (
@@ -289,7 +377,19 @@ useEffect(() => {
               : 'bg-gradient-to-r from-neutral-100 via-white to-neutral-100 border-b border-gray-200'}
           `}
         ></div>
-      <div className="flex justify-end mb-6">
+      <div className="flex justify-end gap-3 mb-6">
+        <button
+          onClick={() => navigate('/baseline')}
+          className="relative z-10 flex justify-end mb-6 px-4 py-2 border border-indigo-500 text-indigo-500 rounded shadow hover:bg-indigo-500/10"
+        >
+          Expected Failures
+        </button>
+        <button
+          onClick={() => navigate('/rules')}
+          className="relative z-10 flex justify-end mb-6 px-4 py-2 border border-indigo-500 text-indigo-500 rounded shadow hover:bg-indigo-500/10"
+        >
+          Failure Rules
+        </button>
         <button
           onClick={() => setDarkMode(prev => !prev)}
           className="relative z-10 flex justify-end mb-6 px-4 py-2 bg-indigo-500 text-white rounded shadow hover:bg-indigo-700"
@@ -310,9 +410,9 @@ useEffect(() => {
           How to Use This Site
         </h2>
         <p className="text-sm leading-relaxed">
-          Upload a single JSON test results file to generate a visual summary of passing/failing tests.
+          Upload a single test results file (JSON, JUnit XML, CTest XML or TAP) to generate a visual summary of passing/failing tests.
           Use the toggle to switch between compiler and runtime validation modes. You can also upload
-          two files to compare versions side-by-side, generating a graph for better visualization. Hover over sections 
+          two or more files to compare versions side-by-side, generating a graph for better visualization. Hover over sections 
           in the graph to view passing/total.
         </p>
         <p className="text-sm leading-relaxed font-semi-bold mt-2">
@@ -329,15 +429,48 @@ useEffect(() => {
       >
       <div className={`max-w-2xl mx-auto mb-12 border rounded-lg shadow-xl p-6 ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'}`}>
         <h2 className="text-2xl font-bold text-center text-blue-700 dark:text-blue-300 mb-2">Upload Results</h2>
-        <p className="text-center text-sm mb-4 text-gray-700 dark:text-gray-400">Upload a single JSON file to generate summary statistics and access detailed results.</p>
+        <p className="text-center text-sm mb-4 text-gray-700 dark:text-gray-400">Upload a single results file (JSON, JUnit XML, CTest XML or TAP) to generate summary statistics and access detailed results. Pick several files at once to merge the shards of one run.</p>
 
         <div className="flex flex-col items-center">
-          <input type="file" accept=".json" onChange={handleFileUpload} className="mb-3" />
+          <input type="file" accept={RESULT_FILE_TYPES} multiple onChange={handleFileUpload} className="mb-3" />
+          {progress && <ParseProgressBar progress={progress} onCancel={() => cancelLoad.current()} />}
+          {loadError && <p className="text-red-500 text-sm">{loadError}</p>}
           {uploadedFileName && <p className="text-green-500 text-sm">{uploadedFileName} has been uploaded</p>}
         </div>
+        {merge && (
+          <MergePanel
+            merge={merge}
+            policy={mergePolicy}
+            onPolicyChange={changeMergePolicy}
+            onExport={() => downloadText(JSON.stringify(merge.parsed, null, 2), 'merged_results.json', 'application/json')}
+            darkMode={darkMode}
+          />
+        )}
+        <SessionPicker
+          sessions={sessions}
+          currentId={sessionId}
+          usage={storageUsage}
+          error={sessionError}
+          onOpen={openSession}
+          onRename={(info, name) => renameSession(info.id, name).then(refreshSessions).catch((e: Error) => setSessionError(e.message))}
+          onDelete={removeSession}
+          darkMode={darkMode}
+        />
 
         {summary && (
             <><div className="flex items-center justify-end mb-4">
+              <label htmlFor="targetSpec" className="mr-2 font-semibold text-sm text-gray-700 dark:text-gray-300">Target spec:</label>
+              <select
+                id="targetSpec"
+                className={`mr-6 border p-1 rounded text-sm ${darkMode ? 'bg-gray-800 text-white' : 'bg-white text-black'}`}
+                value={targetSpec ?? ''}
+                onChange={(e) => setTargetSpec(e.target.value || null)}
+              >
+                <option value="">All versions</option>
+                {getSpecVersions().map((v) => (
+                  <option key={v} value={v}>OpenACC {v}</option>
+                ))}
+              </select>
               <span className="mr-2 font-semibold text-sm text-gray-700 dark:text-gray-300">
                 {mode === 'compiler' ? 'Compiler' : 'Runtime'}
               </span>
@@ -353,7 +486,9 @@ useEffect(() => {
                   }`}
                 />
               </button>
-            </div><div className={`mt-6 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-300 text-black'}`}>
+            </div><RunConfigurationPanel configuration={results?.configuration ?? null} darkMode={darkMode} />
+            {results && <ValidationPanel results={results} darkMode={darkMode} />}
+            <div className={`mt-6 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-300 text-black'}`}>
               <h3 className="text-xl font-semibold mb-4 text-center">Test Summary</h3>
               {['C', 'CPP', 'F90'].map((lang) => (
                 <div key={lang} className="mb-4 border-b pb-2">
@@ -361,6 +496,11 @@ useEffect(() => {
                   <p>Total: {summary[lang as 'C' | 'CPP' | 'F90'].total}</p>
                   <p>Passing: {summary[lang as 'C' | 'CPP' | 'F90'].pass}</p>
                   <p>Failing: {summary[lang as 'C' | 'CPP' | 'F90'].fail}</p>
+                  {summary.targetSpec && (
+                    <p className="font-semibold">
+                      Conformance to {summary.targetSpec}: {formatPercent(conformance(summary[lang as 'C' | 'CPP' | 'F90']))}
+                    </p>
+                  )}
                   <details className="mt-2">
                     <summary className="cursor-pointer text-blue-500 dark:text-blue-300 hover:underline">
                       Show failing tests
@@ -383,46 +523,134 @@ useEffect(() => {
                 </div>
               ))}
 
+              <FailureCausesTable failures={summary.failures} darkMode={darkMode} />
+              {baselineReport && <BaselineSummary report={baselineReport} darkMode={darkMode} />}
+
+              {mode === 'runtime' && notCompiled > 0 && (
+                <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+                  {notCompiled} tests did not compile and are only counted in the compiler results.
+                </p>
+              )}
+              {summary.unclassified.length > 0 && (
+                <details className="mb-4">
+                  <summary className="cursor-pointer text-yellow-600 dark:text-yellow-400 hover:underline">
+                    {summary.unclassified.length} tests are not C, C++ or Fortran files and are not counted above
+                  </summary>
+                  <ul className="list-disc pl-5 text-sm mt-2 max-h-48 overflow-y-auto">
+                    {summary.unclassified.map((name) => <li key={name}>{name}</li>)}
+                  </ul>
+                </details>
+              )}
+              {summary.targetSpec && summary.outOfSpec.length > 0 && (
+                <details className="mb-4">
+                  <summary className="cursor-pointer text-yellow-600 dark:text-yellow-400 hover:underline">
+                    {summary.outOfSpec.length} tests in the results are outside the {summary.targetSpec} range
+                  </summary>
+                  <ul className="list-disc pl-5 text-sm mt-2 max-h-48 overflow-y-auto">
+                    {summary.outOfSpec.map((t) => (
+                      <li key={t.name}>
+                        <strong>{t.name}</strong>: {t.versions.length ? `V:${t.versions.join(', V:')}` : 'no version tag'}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
               <div className="flex flex-col items-center mt-4">
                 <button
                   className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold px-6 py-2 rounded shadow"
-                  onClick={() => {
-                    const input = document.querySelector("input[type='file']") as HTMLInputElement | null;
-                    const file = input?.files?.[0];
-                    if (!file) return;
-                    const reader = new FileReader();
-                    reader.onload = (e) => {
-                      const rawJson = e.target?.result as string;
-                      navigate('/details', { state: { rawJson } });
-                    };
-                    reader.readAsText(file);
-                  } }
+                  onClick={() => openPage('details')}
                 >
                   View Details
                 </button>
                 <p className="text-sm mt-2 text-gray-600 dark:text-gray-400">Click to see detailed breakdown and generate Excel export</p>
+                <button
+                  className="mt-4 bg-green-600 hover:bg-green-700 text-white font-semibold px-6 py-2 rounded shadow"
+                  onClick={downloadWorkbook}
+                >
+                  Download Excel Workbook
+                </button>
+                <p className="text-sm mt-2 text-gray-600 dark:text-gray-400">
+                  Summary, per-language and failure-cause sheets, compared with the files loaded under "Compare Results"
+                </p>
+                <button
+                  className="mt-4 bg-purple-600 hover:bg-purple-700 text-white font-semibold px-6 py-2 rounded shadow"
+                  onClick={() => openPage('coverage')}
+                >
+                  Feature Coverage
+                </button>
+                <p className="text-sm mt-2 text-gray-600 dark:text-gray-400">Pass rate per test feature tag and language</p>
+                <button
+                  className="mt-4 bg-purple-600 hover:bg-purple-700 text-white font-semibold px-6 py-2 rounded shadow"
+                  onClick={() => openPage('consistency')}
+                >
+                  Cross-Language Consistency
+                </button>
+                <p className="text-sm mt-2 text-gray-600 dark:text-gray-400">Tests that fail in one language but pass in the others</p>
+                <button
+                  className="mt-4 bg-purple-600 hover:bg-purple-700 text-white font-semibold px-6 py-2 rounded shadow"
+                  onClick={() => openPage('usage')}
+                >
+                  Directive and Clause Pass Rates
+                </button>
+                <p className="text-sm mt-2 text-gray-600 dark:text-gray-400">OpenACC directives, clauses and runtime calls the compiler likely mishandles</p>
+                <button
+                  className="mt-4 bg-purple-600 hover:bg-purple-700 text-white font-semibold px-6 py-2 rounded shadow"
+                  onClick={() => openPage('runtime-api')}
+                >
+                  Runtime API Conformance
+                </button>
+                <p className="text-sm mt-2 text-gray-600 dark:text-gray-400">Each acc_* routine and its variants per language</p>
+                <button
+                  className="mt-4 bg-gray-600 hover:bg-gray-700 text-white font-semibold px-6 py-2 rounded shadow"
+                  onClick={() => downloadText(
+                    JSON.stringify(createBaseline(results?.tests ?? []), null, 2),
+                    `${uploadedFileName.replace(/\.\w+$/, '') || 'results'}_baseline.json`,
+                    'application/json'
+                  )}
+                >
+                  Export Baseline
+                </button>
+                <p className="text-sm mt-2 text-gray-600 dark:text-gray-400">Download every current failure as an expected-failure file</p>
               </div>
             </div></>
         )}
       </div>
 
       <div className={`max-w-2xl mx-auto border rounded-lg shadow-xl p-6 ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'}`}>
-        <h2 className="text-2xl font-bold text-center text-green-700 dark:text-green-500 mb-2">Compare Two Results</h2>
-        <p className="text-center text-sm mb-4 text-gray-700 dark:text-gray-400">Upload two JSON files to compare the number of passing tests.</p>
+        <h2 className="text-2xl font-bold text-center text-green-700 dark:text-green-500 mb-2">Compare Results</h2>
+        <p className="text-center text-sm mb-4 text-gray-700 dark:text-gray-400">Upload two or more result files to compare the number of passing tests. Rename each file to label its series.</p>
 
         <div className="flex gap-1 mb-4">
-          <input type="file" accept=".json" onChange={(e) => setComparisonFiles(prev => [e.target.files?.[0]!, prev[1]])}
-            className={`flex-1 p-2 rounded ${darkMode ? 'bg-gray-800 text-white border border-green-400' : 'bg-white text-black border border-green-600'}`} />
-          <input type="file" accept=".json" onChange={(e) => setComparisonFiles(prev => [prev[0], e.target.files?.[0]!])}
+          <input type="file" accept={RESULT_FILE_TYPES} multiple onChange={addComparisonFiles}
             className={`flex-1 p-2 rounded ${darkMode ? 'bg-gray-800 text-white border border-green-400' : 'bg-white text-black border border-green-600'}`} />
         </div>
-
-        {comparisonFiles.filter(Boolean).length === 2 && (
-          <div className="text-center mb-4">
-            <p className="text-green-600 dark:text-green-400 text-sm mb-2">✅ Both files ready:</p>
-            <ul className="text-sm list-disc text-left pl-5 text-gray-800 dark:text-gray-500">
-              {comparisonFiles.map((file, i) => (
-                file && <li key={i}>{file.name}</li>
+        {comparisonError && <p className="text-red-500 text-sm mb-4 text-center">{comparisonError}</p>}
+
+        {comparisonFiles.length > 0 && (
+          <div className="mb-4">
+            <p className="text-green-600 dark:text-green-400 text-sm mb-2 text-center">
+              {comparisonFiles.length >= 2 ? `✅ ${comparisonFiles.length} files ready:` : 'Add at least one more file:'}
+            </p>
+            <ul className="text-sm space-y-1">
+              {comparisonFiles.map((entry, i) => (
+                <li key={i} className="flex items-center gap-2">
+                  <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: seriesColor(i) }} />
+                  <input
+                    type="text"
+                    value={entry.label}
+                    onChange={(e) => renameComparisonFile(i, e.target.value)}
+                    className={`flex-1 border px-2 py-1 rounded ${darkMode ? 'bg-gray-800 text-white border-gray-600' : 'bg-white text-black border-gray-300'}`}
+                  />
+                  <span className="text-xs text-gray-500 truncate max-w-[30%]">{entry.file.name}</span>
+                  <button
+                    className="text-red-500 hover:text-red-700 px-2"
+                    onClick={() => removeComparisonFile(i)}
+                    aria-label={`Remove ${entry.file.name}`}
+                  >
+                    ✕
+                  </button>
+                </li>
               ))}
             </ul>
           </div>
@@ -445,7 +673,7 @@ useEffect(() => {
             Clear Files
           </button>
         </div>
-        {comparisonFiles.filter(Boolean).length === 2 && (
+        {comparisonFiles.length >= 2 && (
           <div className="flex justify-end items-center mb-4">
             <span className="mr-2 font-semibold text-sm text-gray-700 dark:text-gray-300">
               {graphMode === 'compiler' ? 'Compiler' : 'Runtime'}
@@ -482,25 +710,70 @@ useEffect(() => {
                 <Tooltip
                   content={({ payload, label }) => {
                     if (!payload || !payload.length) return null;
-                    const v1 = payload.find(p => p.dataKey === 'version1Pass')?.payload;
-                    const v2 = payload.find(p => p.dataKey === 'version2Pass')?.payload;
+                    const datum = payload[0].payload as ComparisonDatum;
 
                     return (
                       <div className={`p-2 rounded border shadow-md ${darkMode ? 'bg-gray-800 text-white' : 'bg-white text-black'}`}>
                         <p className="font-bold mb-1">{label}</p>
-                        <p>{comparisonLabels[0]}: {v1.version1}</p>
-                        <p>{comparisonLabels[1]}: {v2.version2}</p>
+                        {comparisonFiles.map((entry, i) => (
+                          <p key={i} style={{ color: seriesColor(i) }}>{entry.label}: {datum[`label${i}`]}</p>
+                        ))}
                       </div>
                     );
                   }}
                 />
                 <Legend />
-                <Bar dataKey="version1Pass" fill="#3b82f6" name={comparisonLabels[0]} />
-                <Bar dataKey="version2Pass" fill="#10b981" name={comparisonLabels[1]} />
+                {comparisonFiles.map((entry, i) => (
+                  <Bar key={i} dataKey={`pass${i}`} fill={seriesColor(i)} name={entry.label} />
+                ))}
               </BarChart>
             </ResponsiveContainer>
           </div>
         )}
+        {comparisonFiles.length >= 2 && (
+          <div className={`mt-6 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-600' : 'bg-gray-50 border-gray-300'}`}>
+            <h3 className="font-semibold mb-2">Test-level Diff</h3>
+            <p className="text-sm mb-3 text-gray-600 dark:text-gray-400">
+              List the tests that regressed, were fixed, changed failure reason, or were added or removed between two files.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              {(['Baseline', 'Candidate'] as const).map((role, side) => (
+                <select
+                  key={role}
+                  aria-label={role}
+                  className={`flex-1 border p-2 rounded text-sm ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'}`}
+                  value={diffPair[side]}
+                  onChange={(e) => {
+                    const index = Number(e.target.value);
+                    setDiffPair(prev => (side === 0 ? [index, prev[1]] : [prev[0], index]));
+                  }}
+                >
+                  {comparisonFiles.map((entry, i) => (
+                    <option key={i} value={i}>{role}: {entry.label}</option>
+                  ))}
+                </select>
+              ))}
+              <button
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded shadow disabled:opacity-50"
+                disabled={diffPair[0] === diffPair[1]}
+                onClick={viewTestDiff}
+              >
+                View Test Diff
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className={`max-w-2xl mx-auto mt-12 border rounded-lg shadow-xl p-6 text-center ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'}`}>
+        <h2 className="text-2xl font-bold text-purple-700 dark:text-purple-400 mb-2">Historical Trends</h2>
+        <p className="text-sm mb-4 text-gray-700 dark:text-gray-400">Load a series of nightly runs to chart pass rates over time and spot flaky tests.</p>
+        <button
+          className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded shadow"
+          onClick={() => navigate('/trends')}
+        >
+          Open Trends
+        </button>
       </div>
     </div>
     </div>
@@ -521,6 +794,20 @@ export default function App() {
     <Routes>
       <Route path="/" element={<HomePage darkMode={darkMode} setDarkMode={setDarkMode} />} />
       <Route path="/details" element={<DetailsPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/details/:sessionId" element={<DetailsPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/diff" element={<DiffPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/trends" element={<TrendsPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/baseline" element={<BaselinePage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/rules" element={<RulesPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/coverage" element={<CoveragePage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/coverage/:sessionId" element={<CoveragePage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/consistency" element={<ConsistencyPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/consistency/:sessionId" element={<ConsistencyPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/usage" element={<UsagePage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/usage/:sessionId" element={<UsagePage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/runtime-api" element={<RuntimeApiPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/runtime-api/:sessionId" element={<RuntimeApiPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
+      <Route path="/test/:sessionId/:testName" element={<TestPage darkMode={darkMode} setDarkMode={setDarkMode} />} />
     </Routes>
   );
 }
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import PageLayout from './PageLayout';
+import { BaselineEntry, getBaseline, keepValidEntries, setBaseline, validateBaseline } from './baseline';
+import { readFileText } from './resultsParser';
+import { downloadText } from './download';
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+const BaselinePage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const [entries, setEntries] = useState<BaselineEntry[]>(getBaseline);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  // Every edit is saved straight away, as on the failure rules page. An entry
+  // without a test name or with a half-typed sub-test stays a draft here.
+  function updateEntries(next: BaselineEntry[]) {
+    setEntries(next);
+    setBaseline(keepValidEntries(next));
+  }
+
+  function updateEntry(index: number, changes: Partial<BaselineEntry>) {
+    updateEntries(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  }
+
+  function importBaseline(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    readFileText(file).then((text) => {
+      try {
+        updateEntries(validateBaseline(JSON.parse(text)));
+        setImportError(null);
+      } catch (e) {
+        setImportError(`${file.name}: ${(e as Error).message}`);
+      }
+    });
+  }
+
+  const visible = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => !search || entry.test.toLowerCase().includes(search.toLowerCase()));
+
+  const inputClass = `w-full border px-2 py-1 rounded ${darkMode ? 'bg-gray-800 text-white border-gray-600' : 'bg-white text-black border-gray-300'}`;
+
+  return (
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode}>
+      <h1 className="text-4xl font-extrabold text-center mb-2 bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
+        Expected Failures
+      </h1>
+      <p className="text-center text-sm mb-6 text-gray-600 dark:text-gray-400 max-w-3xl mx-auto">
+        Failures listed here are reported as expected instead of cluttering the failure tables. Leave the sub-test
+        empty to cover the whole test, and the mode on "Both" to cover compiler and runtime failures. Use
+        "Export Baseline" on the summary page to start from the failures of a result file. The baseline is saved in
+        this browser.
+      </p>
+
+      <div className="flex flex-wrap justify-center gap-4 mb-4">
+        <button
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded shadow"
+          onClick={() => updateEntries([...entries, { test: '', justification: '' }])}
+        >
+          Add Entry
+        </button>
+        <label className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded shadow cursor-pointer">
+          Import JSON
+          <input type="file" accept=".json" className="hidden" onChange={importBaseline} />
+        </label>
+        <button
+          className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded shadow"
+          onClick={() => downloadText(JSON.stringify(entries, null, 2), 'expected_failures.json', 'application/json')}
+        >
+          Export JSON
+        </button>
+        <button
+          className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded shadow disabled:opacity-50"
+          disabled={entries.length === 0}
+          onClick={() => updateEntries([])}
+        >
+          Clear All
+        </button>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Filter by test name"
+          className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'} hover:border-blue-400`}
+        />
+      </div>
+      {importError && <p className="text-center text-red-500 mb-4">{importError}</p>}
+
+      <div className={`overflow-x-auto border rounded-lg shadow-xl ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}>
+        <table className="table-auto w-full text-sm">
+          <thead className={darkMode ? "bg-gradient-to-r from-indigo-700 via-purple-700 to-blue-700 text-white" : "bg-gray-200 text-gray-800"}>
+            <tr>
+              <th className="p-3 border">#</th>
+              <th className="p-3 border">Test Name</th>
+              <th className="p-3 border">Sub-test</th>
+              <th className="p-3 border">Mode</th>
+              <th className="p-3 border">Justification</th>
+              <th className="p-3 border">Ticket</th>
+              <th className="p-3 border"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={7} className="p-4 text-center text-gray-500">No expected failures.</td>
+              </tr>
+            )}
+            {visible.map(({ entry, index }) => (
+              <tr key={index} className={darkMode ? "even:bg-gray-800" : "even:bg-gray-100"}>
+                <td className="p-2 border text-center font-mono">
+                  {index + 1}
+                  {keepValidEntries([entry]).length === 0 && (
+                    <div className="text-xs text-yellow-600 dark:text-yellow-400" title="Not saved until it has a test name and a sub-test like T1">
+                      draft
+                    </div>
+                  )}
+                </td>
+                <td className="p-2 border">
+                  <input
+                    className={`${inputClass} font-mono ${entry.test ? '' : 'border-red-500'}`}
+                    value={entry.test}
+                    onChange={(e) => updateEntry(index, { test: e.target.value })}
+                    placeholder="acc_copyin.c"
+                  />
+                </td>
+                <td className="p-2 border w-24">
+                  <input
+                    className={`${inputClass} font-mono`}
+                    value={entry.subtest || ''}
+                    onChange={(e) => updateEntry(index, { subtest: e.target.value.toUpperCase() || undefined })}
+                    placeholder="all"
+                  />
+                </td>
+                <td className="p-2 border">
+                  <select
+                    className={inputClass}
+                    value={entry.mode || ''}
+                    onChange={(e) => updateEntry(index, { mode: (e.target.value || undefined) as BaselineEntry['mode'] })}
+                  >
+                    <option value="">Both</option>
+                    <option value="compiler">Compiler</option>
+                    <option value="runtime">Runtime</option>
+                  </select>
+                </td>
+                <td className="p-2 border">
+                  <input
+                    className={inputClass}
+                    value={entry.justification}
+                    onChange={(e) => updateEntry(index, { justification: e.target.value })}
+                  />
+                </td>
+                <td className="p-2 border">
+                  <input
+                    className={inputClass}
+                    value={entry.ticket || ''}
+                    onChange={(e) => updateEntry(index, { ticket: e.target.value || undefined })}
+                    placeholder="optional"
+                  />
+                </td>
+                <td className="p-2 border text-center">
+                  <button
+                    className="px-2 text-red-500 hover:text-red-700"
+                    onClick={() => updateEntries(entries.filter((_, j) => j !== index))}
+                    aria-label="Delete entry"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </PageLayout>
+  );
+};
+
+export default BaselinePage;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { BaselineReport, ExpectationResult } from './baseline';
+
+interface Props {
+  report: BaselineReport;
+  darkMode: boolean;
+}
+
+function describe(result: ExpectationResult): string {
+  return result.subtest ? `${result.name} ${result.subtest}` : result.name;
+}
+
+const BaselineSummary: React.FC<Props> = ({ report, darkMode }) => {
+  const sections = [
+    { title: 'Unexpected failures', items: report.unexpected, color: 'text-red-600 dark:text-red-400', open: true },
+    { title: 'Unexpectedly passing', items: report.unexpectedPass, color: 'text-yellow-600 dark:text-yellow-400', open: false },
+    { title: 'Expected failures', items: report.expected, color: 'text-gray-600 dark:text-gray-400', open: false },
+  ];
+
+  return (
+    <div className={`mt-6 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-300 text-black'}`}>
+      <h3 className="text-lg font-semibold mb-2">Against Expected Failures</h3>
+      <div className="flex flex-wrap gap-6 mb-2">
+        {sections.map(({ title, items, color }) => (
+          <p key={title} className={color}>
+            <span className="text-2xl font-bold mr-1">{items.length}</span>{title.toLowerCase()}
+          </p>
+        ))}
+      </div>
+      {sections.filter(({ items }) => items.length > 0).map(({ title, items, color, open }) => (
+        <details key={title} className="mt-2" open={open}>
+          <summary className="cursor-pointer text-blue-500 dark:text-blue-300 hover:underline">{title}</summary>
+          <ul className={`list-disc pl-5 text-sm mt-2 max-h-48 overflow-y-auto ${color}`}>
+            {items.map((r, i) => (
+              <li key={i}>
+                <strong>{describe(r)}</strong>: {r.reason}
+                {r.entry && (
+                  <span className="ml-2 text-gray-500">
+                    ({r.entry.justification || 'no justification'}{r.entry.ticket && `, ${r.entry.ticket}`})
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+};
+
+export default BaselineSummary;
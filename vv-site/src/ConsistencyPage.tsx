@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import PageLayout from './PageLayout';
+import { LANGUAGES, Language } from './resultsParser';
+import {
+  ConsistencyFinding, ConsistencyRow, FINDING_LABELS, LanguageVariant, VARIANT_STATUS_LABELS,
+  buildConsistencyRows, countOutliers,
+} from './languageConsistency';
+import { useParsedResults } from './useParsedResults';
+import ParseProgressBar from './ParseProgressBar';
+import { testPagePath } from './TestPage';
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+type RowFilter = 'diverging' | 'outlier' | 'missing' | 'all';
+
+const LANGUAGE_NAMES: Record<Language, string> = { C: 'C', CPP: 'C++', F90: 'Fortran' };
+
+const STATUS_COLORS: Record<LanguageVariant['status'], string> = {
+  pass: 'text-green-600 dark:text-green-400',
+  'compile-fail': 'text-red-600 dark:text-red-400',
+  'runtime-fail': 'text-yellow-600 dark:text-yellow-400',
+  unknown: 'text-blue-500 dark:text-blue-400',
+  missing: 'text-gray-500',
+};
+
+function matchesFilter(row: ConsistencyRow, filter: RowFilter): boolean {
+  if (filter === 'diverging') return row.finding === 'outlier' || row.finding === 'split';
+  if (filter === 'outlier') return row.finding === 'outlier';
+  if (filter === 'missing') return row.missing.length > 0;
+  return true;
+}
+
+const ConsistencyPage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const { parsed, session, error, progress, cancel } = useParsedResults();
+  const [filter, setFilter] = useState<RowFilter>('diverging');
+  const [search, setSearch] = useState('');
+
+  const rows = useMemo(() => (parsed ? buildConsistencyRows(parsed.run) : []), [parsed]);
+  const outliers = useMemo(() => countOutliers(rows), [rows]);
+  const findingCounts = useMemo(() => {
+    const counts = {} as Record<ConsistencyFinding, number>;
+    (Object.keys(FINDING_LABELS) as ConsistencyFinding[]).forEach((f) => (counts[f] = 0));
+    rows.forEach((row) => counts[row.finding]++);
+    return counts;
+  }, [rows]);
+
+  const shown = rows.filter((row) =>
+    matchesFilter(row, filter) && (!search || row.baseName.toLowerCase().includes(search.toLowerCase()))
+  );
+
+  const renderVariant = (row: ConsistencyRow, language: Language) => {
+    const variant = row.variants[language];
+    const label = variant.status === 'missing' && !variant.inSuite ? 'Not in suite' : VARIANT_STATUS_LABELS[variant.status];
+    return (
+      <td
+        key={language}
+        className={`p-2 border text-center font-semibold ${STATUS_COLORS[variant.status]} ${row.outlier === language ? 'bg-red-500/15' : ''}`}
+        title={variant.status === 'missing'
+          ? `${variant.name} ${variant.inSuite ? 'is in the test suite but not in these results' : 'is not part of the test suite'}`
+          : `${variant.name}: ${variant.reason}`}
+      >
+        {session && variant.status !== 'missing'
+          ? <Link to={testPagePath(session.id, variant.name)} className="hover:underline">{label}</Link>
+          : label}
+      </td>
+    );
+  };
+
+  return (
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode}>
+      <h1 className="text-4xl font-extrabold text-center mb-6 bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
+        Cross-Language Consistency
+      </h1>
+      <p className="text-center text-sm mb-6 text-gray-600 dark:text-gray-400">
+        Each test's C, C++ and Fortran variants side by side. A test that fails in one language only
+        usually points at that language's front end rather than the runtime.
+      </p>
+
+      {progress && <ParseProgressBar progress={progress} onCancel={cancel} />}
+      {error ? (
+        <p className="text-center text-red-500">{error}</p>
+      ) : rows.length === 0 ? (
+        <p className="text-center text-gray-500">{parsed ? 'No C, C++ or Fortran tests found in the uploaded results.' : 'Loading…'}</p>
+      ) : (
+        <div className="max-w-5xl mx-auto">
+          <div className="flex flex-wrap justify-center gap-3 mb-4">
+            {LANGUAGES.map((language) => (
+              <div key={language} className={`px-4 py-2 rounded-lg border text-sm ${darkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+                Fails only in {LANGUAGE_NAMES[language]}: <span className="font-bold">{outliers[language]}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-center text-sm mb-4 text-gray-600 dark:text-gray-400">
+            {(Object.keys(FINDING_LABELS) as ConsistencyFinding[]).map((f) => `${FINDING_LABELS[f]}: ${findingCounts[f]}`).join(' · ')}
+          </p>
+
+          <div className="flex flex-wrap items-center justify-center gap-4 mb-4">
+            <div>
+              <label htmlFor="consistencyFilter" className="mr-2 font-medium">Show:</label>
+              <select
+                id="consistencyFilter"
+                className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'} hover:border-blue-400`}
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as RowFilter)}
+              >
+                <option value="diverging">Languages disagree</option>
+                <option value="outlier">Fails in one language only</option>
+                <option value="missing">Missing a language</option>
+                <option value="all">All tests</option>
+              </select>
+            </div>
+            <input
+              type="search"
+              placeholder="Search tests"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'}`}
+            />
+          </div>
+
+          <div className={`overflow-x-auto border rounded-lg shadow-xl ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}>
+            <table className="table-auto w-full text-sm">
+              <thead className={darkMode ? "bg-gradient-to-r from-indigo-700 via-purple-700 to-blue-700 text-white" : "bg-gray-200 text-gray-800"}>
+                <tr>
+                  <th className="p-3 border text-left">Test</th>
+                  {LANGUAGES.map((language) => (
+                    <th key={language} className="p-3 border">{LANGUAGE_NAMES[language]}</th>
+                  ))}
+                  <th className="p-3 border text-left">Finding</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((row) => (
+                  <tr key={row.baseName}>
+                    <td className="p-2 border font-mono">{row.baseName}</td>
+                    {LANGUAGES.map((language) => renderVariant(row, language))}
+                    <td className="p-2 border">
+                      {row.outlier ? `Fails only in ${LANGUAGE_NAMES[row.outlier]}` : FINDING_LABELS[row.finding]}
+                      {row.missing.length > 0 && (
+                        <span className="text-gray-500"> · no {row.missing.map((l) => LANGUAGE_NAMES[l]).join(', ')} variant</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shown.length === 0 && <p className="p-4 text-center text-gray-500">No tests match.</p>}
+          </div>
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default ConsistencyPage;
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import PageLayout from './PageLayout';
+import { LANGUAGES } from './resultsParser';
+import { CoverageCell, buildFeatureCoverage, heatColor, passRate } from './featureCoverage';
+import { useParsedResults } from './useParsedResults';
+import ParseProgressBar from './ParseProgressBar';
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+const CoveragePage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const { parsed, error, progress, cancel } = useParsedResults();
+
+  const rows = useMemo(() => (parsed ? buildFeatureCoverage(parsed.run) : []), [parsed]);
+
+  const renderCell = (cell: CoverageCell, key: string) => {
+    const rate = passRate(cell);
+    return (
+      <td
+        key={key}
+        className="p-2 border text-center text-white font-semibold"
+        style={{ backgroundColor: heatColor(rate, darkMode) }}
+        title={`Pass: ${cell.pass}, Fail: ${cell.fail}, Unknown: ${cell.unknown}, Not run: ${cell.notRun}`}
+      >
+        {rate === null ? '–' : `${Math.round(rate * 100)}%`}
+        <div className="text-xs font-normal">{cell.pass} / {cell.pass + cell.fail}</div>
+      </td>
+    );
+  };
+
+  return (
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode}>
+      <h1 className="text-4xl font-extrabold text-center mb-6 bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
+        Feature Coverage
+      </h1>
+      <p className="text-center text-sm mb-6 text-gray-600 dark:text-gray-400">
+        Pass rate of the tagged sub-tests per feature and language. Hover a cell for the full breakdown,
+        including sub-tests that did not run.
+      </p>
+
+      {progress && <ParseProgressBar progress={progress} onCancel={cancel} />}
+      {error ? (
+        <p className="text-center text-red-500">{error}</p>
+      ) : rows.length === 0 ? (
+        <p className="text-center text-gray-500">{parsed ? 'No tagged tests found in the uploaded results.' : 'Loading…'}</p>
+      ) : (
+        <div className={`overflow-x-auto border rounded-lg shadow-xl max-w-5xl mx-auto ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}>
+          <table className="table-auto w-full text-sm">
+            <thead className={darkMode ? "bg-gradient-to-r from-indigo-700 via-purple-700 to-blue-700 text-white" : "bg-gray-200 text-gray-800"}>
+              <tr>
+                <th className="p-3 border text-left">Feature</th>
+                {LANGUAGES.map((lang) => (
+                  <th key={lang} className="p-3 border">{lang}</th>
+                ))}
+                <th className="p-3 border">All</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.feature}>
+                  <td className="p-3 border font-bold">{row.feature}</td>
+                  {LANGUAGES.map((lang) => renderCell(row.byLanguage[lang], lang))}
+                  {renderCell(row.overall, 'all')}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default CoveragePage;
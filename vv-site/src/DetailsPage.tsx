@@ -1,7 +1,25 @@
-import React, { useEffect, useState } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
-import { getCompilerStatus, getRuntimeStatus } from './errorParser';
-import * as XLSX from 'xlsx-js-style';
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import PageLayout from './PageLayout';
+import {
+  STABILITY_LABELS, TestResult, TestStability, getLanguage, getTestFailure, isRuntimeFailure, runPassed, runSkipped,
+} from './resultsParser';
+import { CategorizedFailure, getCompilerStatus, getRuntimeStatus } from './errorParser';
+import { SubtestResult, getSubtestResults } from './testIndex';
+import { writeWorkbook } from './excelExport';
+import { buildResultsWorkbook } from './resultsWorkbook';
+import { getCompilerLabel } from './runConfiguration';
+import { toCsv, toHtmlReport, toJUnitXml, toMarkdown } from './reportExport';
+import { downloadText } from './download';
+import RunConfigurationPanel from './RunConfigurationPanel';
+import FailureCausesTable from './FailureCausesTable';
+import SourcePane from './SourcePane';
+import { findDiagnosticLines } from './sourceViewer';
+import { EXPECTATION_LABELS, ExpectationResult, getTestExpectation } from './baseline';
+import { useParsedResults } from './useParsedResults';
+import { testPagePath } from './TestPage';
+import ParseProgressBar from './ParseProgressBar';
+import { useVirtualRows } from './virtualRows';
 
 interface FailureDetail {
   name: string;
@@ -10,268 +28,246 @@ interface FailureDetail {
   runtimeResult: number | string;
   runtimeReason: string;
   language: string;
-  compilerStderr: string;
-  compilerStdout: string;
-  runtimeStderr: string;
-  runtimeOutput: string;
+  stability: TestStability;
+  subtests: SubtestResult[];
+  failure: CategorizedFailure | null;
+  expectation: ExpectationResult | null;
 }
 
-interface Props {
-  darkMode: boolean;
-  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+// The run behind the rows has no log text. The log modal fetches its test's
+// logs when it opens, and the exports fetch the full run.
+function toFailureDetail(test: TestResult): FailureDetail {
+  return {
+    name: test.name,
+    language: test.language ?? 'Other',
+    compilerResult: test.compiler.result,
+    compilerReason: test.compiler.reason,
+    runtimeResult: test.runtime.result,
+    runtimeReason: test.runtime.reason,
+    stability: test.stability,
+    subtests: getSubtestResults(test),
+    failure: getTestFailure(test),
+    expectation: getTestExpectation(test),
+  };
 }
 
-const DetailsPage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
-  const location = useLocation();
-  const navigate = useNavigate();
-  const [failures, setFailures] = useState<FailureDetail[]>([]);
-  const [filter, setFilter] = useState<'all' | 'pass' | 'fail'>('all');
-  const [languageFilter, setLanguageFilter] = useState<'all' | 'C' | 'CPP' | 'F90'>('all');
-  const [logModal, setLogModal] = useState<FailureDetail | null>(null);
-  const [expandedSections, setExpandedSections] = useState<Record<'all' | 'compiler' | 'runtime', boolean>>({
-    all: false,
-    compiler: true,
-    runtime: true,
-  });
-  const exportToExcel = (data: FailureDetail[], fileName: string) => {
-  const header = [
-    "Test Name",
-    "Language",
-    "Compiler Result",
-    "Compiler Reason",
-    "Runtime Result",
-    "Runtime Reason",
-    "Compiler Stderr",
-    "Compiler Stdout",
-    "Runtime Stderr",
-    "Runtime Output"
-  ];
+type SectionKey = 'all' | 'intermittent' | 'compiler' | 'runtime';
 
-  const body = data.map(d => [
-    d.name,
-    d.language,
-    d.compilerResult,
-    d.compilerReason,
-    d.runtimeResult,
-    d.runtimeReason,
-    d.compilerStderr,
-    d.compilerStdout,
-    d.runtimeStderr,
-    d.runtimeOutput
-  ]);
+// Each test and sub-test is one fixed-height row so the tables can be virtualized.
+type TableRow =
+  | { kind: 'test'; index: number; detail: FailureDetail }
+  | { kind: 'subtest'; detail: FailureDetail; subtest: SubtestResult };
 
-  const worksheetData = [header, ...body];
-  const ws = XLSX.utils.aoa_to_sheet(worksheetData);
+const ROW_HEIGHT = 37;
+const TABLE_HEIGHT = 600;
+const CELL = 'p-2 border truncate';
 
-  // Set column widths
-  const colWidths = [25, 10, 15, 25, 15, 25, 30, 30, 30, 30];
-  ws['!cols'] = colWidths.map(w => ({ wch: w }));
-
-  // Set row heights (starting from row 1, header is 0)
-  ws['!rows'] = worksheetData.map((_, i) => ({ hpt: i === 0 ? 24 : 28 }));
+interface TestTableProps {
+  data: FailureDetail[];
+  sessionId: string | null;
+  onViewLog: (name: string) => void;
+  darkMode: boolean;
+}
 
-  // Style headers
-  header.forEach((_, colIndex) => {
-    const cellRef = XLSX.utils.encode_cell({ r: 0, c: colIndex });
-    ws[cellRef].s = {
-      font: { bold: true, color: { rgb: "FFFFFF" }, sz: 12 },
-      fill: { fgColor: { rgb: "4F46E5" } },
-      alignment: { horizontal: "center", vertical: "center", wrapText: true },
-      border: {
-        top: { style: "thin", color: { rgb: "CCCCCC" } },
-        bottom: { style: "thin", color: { rgb: "CCCCCC" } }
-      }
-    };
+const TestTable: React.FC<TestTableProps> = ({ data, sessionId, onViewLog, darkMode }) => {
+  const rows: TableRow[] = [];
+  data.forEach((detail, index) => {
+    rows.push({ kind: 'test', index, detail });
+    detail.subtests.forEach((subtest) => rows.push({ kind: 'subtest', detail, subtest }));
   });
+  const { start, end, padTop, padBottom, onScroll } = useVirtualRows(rows.length, ROW_HEIGHT, TABLE_HEIGHT);
 
-  // Style data rows
-  for (let r = 1; r < worksheetData.length; r++) {
-    const row = worksheetData[r];
-    for (let c = 0; c < row.length; c++) {
-      const cellRef = XLSX.utils.encode_cell({ r, c });
-      const cell = ws[cellRef];
+  const renderSubtestRow = (f: FailureDetail, t: SubtestResult) => {
+    const compilerPass = t.status !== 'compile-fail';
+    const runtimeLabel = t.status === 'pass' ? 'Pass' : t.status === 'fail' ? 'Fail' : 'Unknown';
+    const runtimeColor = t.status === 'pass'
+      ? 'text-green-600 dark:text-green-500'
+      : t.status === 'fail' ? 'text-red-600 dark:text-red-500' : 'text-blue-500 dark:text-blue-400';
+    const tags = `${t.tags.join(', ')}${t.version ? ` V:${t.version}` : ''}`;
 
-      const val = row[c];
-
-      // Default styling
-      cell.s = {
-        font: { name: "Calibri", sz: 11 },
-        alignment: { vertical: "top", wrapText: true },
-      };
+    return (
+      <tr key={`${f.name}/${t.id}`} style={{ height: ROW_HEIGHT }} className={`text-xs ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+        <td className={CELL}></td>
+        <td className={`${CELL} pl-8 font-mono`} title={t.id}>↳ {t.id}</td>
+        <td className={`${CELL} text-center`}>{f.language}</td>
+        <td className={`${CELL} text-center font-semibold ${compilerPass ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {compilerPass ? 'Pass' : 'Fail'}
+        </td>
+        <td className={CELL} title={tags}>{tags}</td>
+        <td className={`${CELL} text-center font-semibold ${runtimeColor}`}>{runtimeLabel}</td>
+        <td className={`${CELL} ${runtimeColor}`} title={t.reason}>{t.reason}</td>
+        <td className={`${CELL} text-center font-mono`}>L{t.line}–{t.endLine}</td>
+      </tr>
+    );
+  };
 
-      // Apply color to result/reason cells (text only)
-      if ([2, 3, 4, 5].includes(c)) {
-        // const failKeywords = ["fail", "error", "segmentation", "undefined", "aborted"];
-        const valStr = String(val).toLowerCase();
-        const isPass = valStr === '0' || valStr === 'pass';
-        const isUnknown = valStr === 'unknown';
-        const isFail = !(valStr === '0' || valStr === 'unknown');
-        cell.s.font = {
-          ...cell.s.font,
-          bold: true,
-          color: {
-            rgb: isPass ? "22C55E" : isUnknown ? "3B82F6" : isFail ? "EF4444" : "000000"
-          }
-        };
-      }
-    }
-  }
+  const renderTestRow = (f: FailureDetail, i: number) => {
+    const isUnknown = f.runtimeResult === 'Unknown';
+    const isPass = typeof f.runtimeResult === 'number' && f.runtimeResult === 0;
+    const isCompilerPass = f.compilerResult === 0;
 
-  const wb = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(wb, ws, "Details");
+    return (
+      <tr key={f.name} style={{ height: ROW_HEIGHT }} className={i % 2 === 1 ? (darkMode ? "bg-gray-800" : "bg-gray-100") : ''}>
+        <td className={`${CELL} text-center font-mono`}>{i + 1}</td>
+        <td className={`${CELL} font-bold text-blue-800 dark:text-blue-400`} title={f.name}>
+          {sessionId ? (
+            <Link to={testPagePath(sessionId, f.name)} className="hover:underline" title="Open the test page">{f.name}</Link>
+          ) : f.name}
+          {f.expectation && f.expectation.status !== 'unexpected' && (
+            <span
+              title={[f.expectation.entry?.justification, f.expectation.entry?.ticket].filter(Boolean).join(' – ')}
+              className={`ml-2 px-2 py-0.5 rounded text-xs font-normal ${f.expectation.status === 'expected' ? 'bg-gray-500/20 text-gray-600 dark:text-gray-300' : 'bg-yellow-500/20 text-yellow-700 dark:text-yellow-300'}`}
+            >
+              {EXPECTATION_LABELS[f.expectation.status]}
+            </span>
+          )}
+          {f.stability.stability === 'intermittent' && (
+            <span
+              title={`Passed ${f.stability.passed} of ${f.stability.total} runs`}
+              className="ml-2 px-2 py-0.5 rounded text-xs font-normal bg-orange-500/20 text-orange-700 dark:text-orange-300"
+            >
+              {STABILITY_LABELS.intermittent} {f.stability.passed}/{f.stability.total}
+            </span>
+          )}
+        </td>
+        <td className={`${CELL} text-center`}>{f.language}</td>
+        <td className={`${CELL} text-center font-semibold ${isCompilerPass ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>{f.compilerResult}</td>
+        <td className={`${CELL} ${f.compilerReason.toLowerCase() === 'pass' ? 'text-green-600 dark:text-green-500' : 'text-red-500 dark:text-red-500'}`} title={f.compilerReason}>{f.compilerReason}</td>
+        <td className={`${CELL} text-center font-semibold ${isUnknown ? 'text-blue-500 dark:text-blue-400' : isPass ? 'text-green-600 dark:text-green-500' : 'text-yellow-600 dark:text-yellow-400'}`}>{f.runtimeResult}</td>
+        <td className={`${CELL} ${isUnknown ? 'text-blue-500 dark:text-blue-400' : isPass ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'}`} title={f.runtimeReason}>
+          {f.runtimeReason}
+        </td>
+        <td className={`${CELL} text-center`}>
+          <button
+            className="text-sm text-blue-600 dark:text-blue-400 underline hover:text-blue-800"
+            onClick={() => onViewLog(f.name)}
+          >
+            View Full Log
+          </button>
+        </td>
+      </tr>
+    );
+  };
 
-  XLSX.writeFile(wb, `${fileName}.xlsx`);
+  const headerClass = `p-2 border sticky top-0 ${darkMode ? 'bg-indigo-800 text-white' : 'bg-gray-200 text-gray-800'}`;
+  return (
+    <div
+      className={`overflow-auto border rounded-lg shadow-xl ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}
+      style={{ maxHeight: TABLE_HEIGHT }}
+      onScroll={onScroll}
+    >
+      <table className="table-fixed w-full min-w-[64rem] text-sm">
+        <colgroup>
+          <col className="w-14" />
+          <col className="w-1/4" />
+          <col className="w-20" />
+          <col className="w-24" />
+          <col />
+          <col className="w-24" />
+          <col />
+          <col className="w-32" />
+        </colgroup>
+        <thead>
+          <tr>
+            <th className={headerClass}>#</th>
+            <th className={headerClass}>Test Name</th>
+            <th className={headerClass}>Language</th>
+            <th className={headerClass}>Compiler Result</th>
+            <th className={headerClass}>Compiler Reason</th>
+            <th className={headerClass}>Runtime Result</th>
+            <th className={headerClass}>Runtime Reason</th>
+            <th className={headerClass}>Logs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {padTop > 0 && <tr style={{ height: padTop }} />}
+          {rows.slice(start, end).map((row) => row.kind === 'test'
+            ? renderTestRow(row.detail, row.index)
+            : renderSubtestRow(row.detail, row.subtest))}
+          {padBottom > 0 && <tr style={{ height: padBottom }} />}
+        </tbody>
+      </table>
+    </div>
+  );
 };
 
-useEffect(() => {
-  const state = location.state as { rawJson: string };
-  if (!state?.rawJson) return;
-
-  const jsonText = state.rawJson.trim().replace(/^var jsonResults\s*=\s*/, '');
-  const data = JSON.parse(jsonText);
-  // const runs = data.runs || Object.fromEntries(
-  //   Object.entries(data).filter(([k]) => k !== 'testsuite_configuration')
-  // );
-
-  let runs: { [key: string]: any[] } = {};
-
-if (data.runs) {
-  // Case 1: OpenACC format
-  runs = data.runs;
-} else if (data.results && typeof data.results === 'object') {
-  // Case 2: NVIDIA-style JSON (your fake file)
-  runs = Object.fromEntries(
-    Object.entries(data.results).map(([key, val]) => [key, Array.isArray(val) ? val : [val]])
-  );
-} else if (!Array.isArray(data)) {
-  // Case 3: OpenMP flat JSON structure (test names as top-level keys)
-  runs = Object.fromEntries(
-    Object.entries(data)
-      .filter(([key]) => key !== 'testsuite_configuration' && typeof data[key] === 'object')
-      .map(([key, value]) => [key, Array.isArray(value) ? value : [value]])
-  );
-} else {
-  // Case 4: Flat array with testname/test/name inside each object
-  for (const item of data) {
-    const name = item.testname || item.test || item.name;
-    if (!name) continue;
-    if (!runs[name]) runs[name] = [];
-    runs[name].push(item);
-  }
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
 }
 
-
-  const sortTestNames = (names: string[]) => {
-    const langOrder: { [key: string]: number } = { c: 0, cpp: 1, f90: 2 };
-    return names.sort((a, b) => {
-      const [baseA, extA] = a.toLowerCase().split(/\.(?=[^.]+$)/);
-      const [baseB, extB] = b.toLowerCase().split(/\.(?=[^.]+$)/);
-      if (baseA < baseB) return -1;
-      if (baseA > baseB) return 1;
-      return (langOrder[extA] ?? 3) - (langOrder[extB] ?? 3);
-    });
-  };
-
-  const parsedFailures: FailureDetail[] = [];
-  const sortedNames = sortTestNames(Object.keys(runs));
-
-for (const testName of sortedNames) {
-  let runArray = runs[testName];
-
-  // Convert single object to array if needed (for OpenMP and new OpenACC)
-  if (!Array.isArray(runArray)) {
-    if (typeof runArray === 'object' && runArray !== null) {
-      runArray = [runArray];
-    } else {
-      continue; // Skip invalid entries
-    }
-  }
-
-  if (runArray.length === 0) continue;
-
-  const ext = testName.split('.').pop()?.toLowerCase();
-  let language = 'Other';
-  if (ext === 'c') language = 'C';
-  else if (ext === 'cpp') language = 'CPP';
-  else if (ext === 'f90') language = 'F90';
-
-  let compilerStatusFinal = { result: 0, reason: 'Pass', stderr: '', stdout: '' };
-  let runtimeStatusFinal: { result: number | string, reason: string, stderr: string, output: string } =
-    { result: 0, reason: 'Pass', stderr: '', output: '' };
-
-  for (const run of runArray) {
-    const cStatus = getCompilerStatus(run);
-    const compilerSucceeded = cStatus.result === 0 || run.compilation?.success === true;
-
-    if (!compilerSucceeded) {
-      compilerStatusFinal = {
-        result: cStatus.result,
-        reason: cStatus.reason,
-        stderr: cStatus.stderr,
-        stdout: cStatus.stdout
-      };
-
-      // Runtime shouldn't be evaluated if compiler failed
-      runtimeStatusFinal = {
-        result: 'Unknown',
-        reason: 'Not executed due to compiler failure',
-        stderr: '',
-        output: ''
-      };
-    } else {
-      // Only evaluate runtime if compiler succeeded
-      const rStatus = getRuntimeStatus(run);
-      const runtimeSucceeded = rStatus.result === 0 || run.runtime?.success === true;
-
-      if (!runtimeSucceeded) {
-        runtimeStatusFinal = {
-          result: rStatus.result,
-          reason: rStatus.reason,
-          stderr: rStatus.stderr,
-          output: rStatus.output
-        };
-      }
-    }
-  }
-
-  parsedFailures.push({
-    name: testName,
-    language,
-    compilerResult: compilerStatusFinal.result,
-    compilerReason: compilerStatusFinal.reason || 'Pass',
-    runtimeResult: runtimeStatusFinal.result,
-    runtimeReason: runtimeStatusFinal.reason || 'Pass',
-    compilerStderr: compilerStatusFinal.stderr,
-    compilerStdout: compilerStatusFinal.stdout,
-    runtimeStderr: runtimeStatusFinal.stderr,
-    runtimeOutput: runtimeStatusFinal.output
+const DetailsPage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const { parsed, session, error, progress, cancel } = useParsedResults();
+  const failures = useMemo(() => (parsed ? parsed.run.tests.map(toFailureDetail) : []), [parsed]);
+  const configuration = parsed?.run.configuration ?? null;
+  const [filter, setFilter] = useState<'all' | 'pass' | 'fail' | 'intermittent' | 'unexpected'>('all');
+  const [languageFilter, setLanguageFilter] = useState<'all' | 'C' | 'CPP' | 'F90'>('all');
+  const [logModal, setLogModal] = useState<string | null>(null);
+  const [fetchedLog, setFetchedLog] = useState<TestResult | null>(null);
+  const [logRun, setLogRun] = useState(0);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [expandedSections, setExpandedSections] = useState<Record<SectionKey, boolean>>({
+    all: false,
+    intermittent: true,
+    compiler: true,
+    runtime: true,
   });
-}
-
-setFailures(parsedFailures);
 
-  setFailures(parsedFailures);
-}, [location.state]);
+  // Exports cover the whole result file, not the filtered view, with the logs.
+  const exportReport = (format: 'excel' | 'junit' | 'csv' | 'markdown' | 'html') => {
+    if (!parsed) return;
+    const compiler = getCompilerLabel(configuration);
+    const title = compiler ? `OpenACC V&V Results – ${compiler}` : 'OpenACC V&V Results';
+    setFetchError(null);
+    parsed.logs.fullRun()
+      .then((run) => {
+        if (format === 'excel') writeWorkbook(buildResultsWorkbook(run), title.replace(/[\s–]+/g, '_'));
+        if (format === 'junit') downloadText(toJUnitXml(run), 'vv_results.xml', 'application/xml');
+        if (format === 'csv') downloadText(toCsv(run), 'vv_results.csv', 'text/csv');
+        if (format === 'markdown') downloadText(toMarkdown(run, title), 'vv_results.md', 'text/markdown');
+        if (format === 'html') downloadText(toHtmlReport(run, title), 'vv_results.html', 'text/html');
+      })
+      .catch((e: Error) => setFetchError(`The export failed: ${e.message}`));
+  };
 
+  // Judged as the summary judges a test, so a skipped test ('Unknown') passes.
   const filteredData = failures.filter((entry) => {
-    const runtimeNumeric = typeof entry.runtimeResult === 'number' ? entry.runtimeResult : -1;
-    const filterPassFail = filter === 'fail' ? (entry.compilerResult !== 0 || runtimeNumeric !== 0)
-                         : filter === 'pass' ? (entry.compilerResult === 0 && runtimeNumeric === 0)
+    const failed = entry.compilerResult !== 0 || isRuntimeFailure(entry.runtimeResult);
+    const filterPassFail = filter === 'fail' ? failed
+                         : filter === 'pass' ? !failed
+                         : filter === 'intermittent' ? entry.stability.stability === 'intermittent'
+                         : filter === 'unexpected' ? entry.expectation?.status === 'unexpected'
                          : true;
     const filterLang = languageFilter === 'all' || entry.language === languageFilter;
     return filterPassFail && filterLang;
   });
 
+  // A slow fetch for a test closed since does not show under another one.
+  const logTest = fetchedLog && fetchedLog.name === logModal ? fetchedLog : null;
+  const logRunData = logTest ? logTest.runs[Math.min(logRun, logTest.runs.length - 1)] : null;
+  const logCompiler = logRunData ? getCompilerStatus(logRunData) : null;
+  const logRuntime = logRunData ? getRuntimeStatus(logRunData) : null;
+
+  // Opens on the first failing run, the one that decided the test's status.
+  // The runs of the log-free run have the verdicts to find it by; the logs
+  // are fetched.
+  const openLog = (name: string) => {
+    const test = parsed?.run.tests.find((t) => t.name === name);
+    if (!parsed || !test) return;
+    setLogRun(Math.max(0, test.runs.findIndex((r) => !runPassed(r) && !runSkipped(r))));
+    setLogModal(name);
+    setFetchError(null);
+    parsed.logs.test(name)
+      .then(setFetchedLog)
+      .catch((e: Error) => setFetchError(`The logs could not be loaded: ${e.message}`));
+  };
+
   const compilerFails = filteredData.filter(f => f.compilerResult !== 0);
-  const runtimeFails = filteredData.filter(f => {
-    const result = f.runtimeResult;
-    return (
-      (typeof result === 'number' && result !== 0) ||
-      (typeof result === 'string' && !['pass', 'unknown'].includes(result.toLowerCase()))
-    );
-  });
+  const runtimeFails = filteredData.filter(f => isRuntimeFailure(f.runtimeResult));
+  const intermittent = filteredData.filter(f => f.stability.stability === 'intermittent');
+  const hasRepeatedRuns = failures.some(f => f.stability.total > 1);
 
-  const renderTable = (data: FailureDetail[], title: string, key: 'all' | 'compiler' | 'runtime') => (
+  const renderTable = (data: FailureDetail[], title: string, key: SectionKey) => (
     <div className="mt-8">
       <button
         onClick={() => setExpandedSections(prev => ({ ...prev, [key]: !prev[key] }))}
@@ -283,90 +279,20 @@ setFailures(parsedFailures);
       <span className="ml-1">{title}</span>
       </button>
       {expandedSections[key] && (
-        <><div className="text-right mb-2">
-          <button
-            onClick={() => exportToExcel(data, `${title.replace(/\s+/g, '_')}_Report`)}
-            className="backdrop-blur-md bg-green-400/10 hover:bg-green-400/20 text-green-500 font-semibold px-6 py-2 rounded-xl border border-green-500 shadow-md hover:shadow-lg transition-all duration-300"
-          >
-            Download Excel
-          </button>
-        </div><div className={`overflow-x-auto border rounded-lg shadow-xl ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}>
-            <table className="table-auto w-full text-sm">
-              <thead className={darkMode ? "bg-gradient-to-r from-indigo-700 via-purple-700 to-blue-700 text-white" : "bg-gray-200 text-gray-800"}>
-                <tr>
-                  <th className="p-3 border">#</th>
-                  <th className="p-3 border">Test Name</th>
-                  <th className="p-3 border">Language</th>
-                  <th className="p-3 border">Compiler Result</th>
-                  <th className="p-3 border">Compiler Reason</th>
-                  <th className="p-3 border">Runtime Result</th>
-                  <th className="p-3 border">Runtime Reason</th>
-                  <th className="p-3 border">Logs</th>
-                </tr>
-              </thead>
-              <tbody>
-                {data.map((f, i) => {
-                  const isUnknown = f.runtimeResult === 'Unknown';
-                  const isPass = typeof f.runtimeResult === 'number' && f.runtimeResult === 0;
-                  const isCompilerPass = f.compilerResult === 0;
-
-                  return (
-                    <tr key={i} className={darkMode ? "even:bg-gray-800" : "even:bg-gray-100"}>
-                      <td className="p-3 border text-center font-mono">{i + 1}</td>
-                      <td className="p-3 border font-bold text-blue-800 dark:text-blue-400">{f.name}</td>
-                      <td className="p-3 border text-center">{f.language}</td>
-                      <td className={`p-3 border text-center font-semibold ${isCompilerPass ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>{f.compilerResult}</td>
-                      <td className={`p-3 border ${f.compilerReason.toLowerCase() === 'pass' ? 'text-green-600 dark:text-green-500' : 'text-red-500 dark:text-red-500'}`}>{f.compilerReason}</td>
-                      <td className={`p-3 border text-center font-semibold ${isUnknown ? 'text-blue-500 dark:text-blue-400' : isPass ? 'text-green-600 dark:text-green-500' : 'text-yellow-600 dark:text-yellow-400'}`}> {f.runtimeResult}</td>
-                      <td className={`p-3 border ${isUnknown ? 'text-blue-500 dark:text-blue-400' : isPass ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'}`}>
-                        {f.runtimeReason}
-                      </td>
-                      <td className="p-3 border text-center">
-                        <button
-                          className="text-sm text-blue-600 dark:text-blue-400 underline hover:text-blue-800"
-                          onClick={() => setLogModal(f)}
-                        >
-                          View Full Log
-                        </button>
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div></>
+        <TestTable data={data} sessionId={session?.id ?? null} onViewLog={openLog} darkMode={darkMode} />
       )}
     </div>
   );
 
   return (
-    <div className={`${darkMode ? 'bg-gradient-to-br from-gray-900 via-gray-800 to-gray-950 text-white' : 'bg-white text-black'} min-h-screen p-8`}>
-        <div
-          className={`w-full h-20 shadow-lg absolute top-0 left-0 z-0 pointer-events-none
-            ${darkMode
-              ? 'bg-gradient-to-r from-gray-800 via-gray-900 to-gray-800 border-b border-gray-700'
-              : 'bg-gradient-to-r from-neutral-100 via-white to-neutral-100 border-b border-gray-200'}
-          `}
-        ></div>
-      <div className="flex justify-between items-center mb-6">
-        <button
-          onClick={() => navigate(-1)}
-          className="flex items-center gap-2 text-sm font-medium px-4 py-2 rounded-lg border border-blue-500 text-blue-500 hover:bg-blue-500/10 transition duration-300 backdrop-blur-sm shadow-sm hover:shadow-md"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
-          </svg>
-          Back to Summary
-        </button>
-        <button onClick={() => setDarkMode(prev => !prev)} 
-        className="relative z-10 px-4 py-2 bg-indigo-500 text-white rounded shadow hover:bg-indigo-700">
-          Toggle {darkMode ? 'Light' : 'Dark'} Mode
-        </button>
-      </div>
-
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode}>
       <h1 className="text-4xl font-extrabold text-center mb-6 bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
         Detailed Test Results
       </h1>
+      {session && <p className="text-center text-sm -mt-4 mb-6 text-gray-600 dark:text-gray-400">{session.name}</p>}
+      {error && <p className="text-center text-red-500 mb-6">{error}</p>}
+      {fetchError && <p className="text-center text-red-500 mb-6">{fetchError}</p>}
+      {progress && <ParseProgressBar progress={progress} onCancel={cancel} />}
 
       <div className="flex flex-col md:flex-row items-center justify-center gap-4 mb-6">
         <div>
@@ -380,6 +306,8 @@ setFailures(parsedFailures);
             <option value="all">All Tests</option>
             <option value="pass">Only Passing</option>
             <option value="fail">Only Failing</option>
+            <option value="intermittent">Only Intermittent</option>
+            <option value="unexpected">Only Unexpected Failures</option>
           </select>
         </div>
         <div>
@@ -398,24 +326,78 @@ setFailures(parsedFailures);
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center justify-center gap-2 mb-6">
+        <span className="mr-2 font-medium">Export:</span>
+        {([['excel', 'Excel Workbook'], ['junit', 'JUnit XML'], ['csv', 'CSV'], ['markdown', 'Markdown'], ['html', 'HTML Report']] as const).map(([format, label]) => (
+          <button
+            key={format}
+            onClick={() => exportReport(format)}
+            className="backdrop-blur-md bg-indigo-400/10 hover:bg-indigo-400/20 text-indigo-500 font-semibold px-4 py-1 rounded-xl border border-indigo-500 shadow-md hover:shadow-lg transition-all duration-300"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <RunConfigurationPanel configuration={configuration} darkMode={darkMode} />
+      <FailureCausesTable
+        failures={filteredData.flatMap((f) => (f.failure ? [f.failure] : []))}
+        darkMode={darkMode}
+      />
+
       {renderTable(filteredData, 'All Tests', 'all')}
+      {hasRepeatedRuns && renderTable(intermittent, 'Intermittent Tests', 'intermittent')}
       {renderTable(compilerFails, 'Compiler Failures', 'compiler')}
       {renderTable(runtimeFails, 'Runtime Failures', 'runtime')}
 
       {logModal && (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
           <div className="bg-gray-900 text-white p-6 rounded-lg shadow-xl w-[90%] max-w-4xl max-h-[90%] overflow-y-auto">
-            <h2 className="text-2xl font-bold mb-2 text-indigo-600 dark:text-indigo-300">{logModal.name} – Full Log</h2>
-            <div className="text-sm font-mono whitespace-pre-wrap">
+            <h2 className="text-2xl font-bold mb-2 text-indigo-600 dark:text-indigo-300">{logModal} – Full Log</h2>
+            {!logTest && <p className="text-gray-400">{fetchError ?? 'Loading logs…'}</p>}
+            {logTest && logTest.runs.length > 1 && (
+              <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                <button
+                  className="px-3 py-1 rounded border border-indigo-400 disabled:opacity-40"
+                  disabled={logRun === 0}
+                  onClick={() => setLogRun(logRun - 1)}
+                >
+                  ‹ Previous
+                </button>
+                <span>Run {logRun + 1} of {logTest.runs.length}</span>
+                <button
+                  className="px-3 py-1 rounded border border-indigo-400 disabled:opacity-40"
+                  disabled={logRun >= logTest.runs.length - 1}
+                  onClick={() => setLogRun(logRun + 1)}
+                >
+                  Next ›
+                </button>
+                <span className={runSkipped(logRunData) ? 'text-blue-400' : runPassed(logRunData) ? 'text-green-400' : 'text-red-400'}>
+                  {runSkipped(logRunData) ? 'Skipped' : runPassed(logRunData) ? 'Passed' : 'Failed'}
+                </span>
+                <span className="text-gray-400">
+                  {STABILITY_LABELS[logTest.stability.stability]}: {logTest.stability.passed} of {logTest.stability.total} runs passed
+                </span>
+              </div>
+            )}
+            {logTest && (
+              <SourcePane
+                key={logTest.name}
+                testName={logTest.name}
+                language={getLanguage(logTest.name)}
+                diagnosticLines={findDiagnosticLines(`${logCompiler?.stdout}\n${logCompiler?.stderr}`, logTest.name)}
+              />
+            )}
+            {logTest && <div className="text-sm font-mono whitespace-pre-wrap">
               <h3 className="mt-4 font-bold text-blue-600 dark:text-blue-400">Compiler Stdout:</h3>
-              <pre className="mb-4">{logModal.compilerStdout || '(none)'}</pre>
+              <pre className="mb-4">{logCompiler?.stdout || '(none)'}</pre>
               <h3 className="mt-4 font-bold text-blue-600 dark:text-blue-400">Compiler Stderr:</h3>
-              <pre className="mb-4">{logModal.compilerStderr || '(none)'}</pre>
+              <pre className="mb-4">{logCompiler?.stderr || '(none)'}</pre>
               <h3 className="mt-4 font-bold text-green-600 dark:text-green-400">Runtime Output:</h3>
-              <pre className="mb-4">{logModal.runtimeOutput || '(none)'}</pre>
+              <pre className="mb-4">{logRuntime?.output || '(none)'}</pre>
               <h3 className="mt-4 font-bold text-red-600 dark:text-red-400">Runtime Stderr:</h3>
-              <pre>{logModal.runtimeStderr || '(none)'}</pre>
-            </div>
+              <pre>{logRuntime?.stderr || '(none)'}</pre>
+            </div>}
             <div className="mt-6 text-right">
               <button
                 className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
@@ -427,7 +409,7 @@ setFailures(parsedFailures);
           </div>
         </div>
       )}
-    </div>
+    </PageLayout>
   );
 };
 
@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import PageLayout from './PageLayout';
+import { parseResultsFile } from './resultsParser';
+import { DIFF_CATEGORIES, DiffCategory, TestDiff, TestOutcome, diffResults } from './comparison';
+import { buildStyledSheet, writeWorkbook } from './excelExport';
+
+interface DiffSide {
+  label: string;
+  rawJson: string;
+}
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+function outcomeResult(outcome: TestOutcome | null): string {
+  return outcome ? (outcome.passed ? 'Pass' : 'Fail') : 'N/A';
+}
+
+function outcomeReason(outcome: TestOutcome | null): string {
+  return outcome ? outcome.reason : 'Not in results';
+}
+
+const DiffPage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const location = useLocation();
+  const [categoryFilter, setCategoryFilter] = useState<'all' | DiffCategory>('all');
+  const [languageFilter, setLanguageFilter] = useState<'all' | 'C' | 'CPP' | 'F90'>('all');
+  const [search, setSearch] = useState('');
+  const [expandedSections, setExpandedSections] = useState<Record<DiffCategory, boolean>>({
+    regressed: true,
+    fixed: true,
+    'reason-changed': true,
+    added: false,
+    removed: false,
+    unchanged: false,
+  });
+
+  const state = location.state as { base: DiffSide; head: DiffSide } | null;
+
+  const { diffs, error } = useMemo(() => {
+    if (!state?.base || !state?.head) return { diffs: [], error: null };
+    try {
+      const base = parseResultsFile(state.base.label, state.base.rawJson);
+      const head = parseResultsFile(state.head.label, state.head.rawJson);
+      return { diffs: diffResults(base, head), error: null };
+    } catch (e) {
+      return { diffs: [], error: (e as Error).message };
+    }
+  }, [state]);
+
+  const counts = useMemo(() => {
+    const result = {} as Record<DiffCategory, number>;
+    DIFF_CATEGORIES.forEach(({ key }) => (result[key] = 0));
+    diffs.forEach((d) => result[d.category]++);
+    return result;
+  }, [diffs]);
+
+  const filteredDiffs = diffs.filter((d) =>
+    (languageFilter === 'all' || d.language === languageFilter) &&
+    (!search || d.name.toLowerCase().includes(search.toLowerCase()))
+  );
+
+  const baseLabel = state?.base?.label || 'Baseline';
+  const headLabel = state?.head?.label || 'Candidate';
+
+  const toSheet = (data: TestDiff[]) => {
+    const header = [
+      "Test Name",
+      "Language",
+      `${baseLabel} Result`,
+      `${baseLabel} Reason`,
+      `${headLabel} Result`,
+      `${headLabel} Reason`,
+    ];
+    const body = data.map(d => [
+      d.name,
+      d.language ?? 'Other',
+      outcomeResult(d.base),
+      outcomeReason(d.base),
+      outcomeResult(d.head),
+      outcomeReason(d.head),
+    ]);
+    return buildStyledSheet(header, body, [30, 10, 15, 40, 15, 40], [2, 4]);
+  };
+
+  const exportCategory = (category: DiffCategory, title: string) => {
+    const data = filteredDiffs.filter((d) => d.category === category);
+    writeWorkbook([{ name: title, sheet: toSheet(data) }], `${title.replace(/[\s,]+/g, '_')}_Diff`);
+  };
+
+  const exportAll = () => {
+    writeWorkbook(
+      DIFF_CATEGORIES.map(({ key, title }) => ({
+        name: title,
+        sheet: toSheet(filteredDiffs.filter((d) => d.category === key)),
+      })),
+      'Test_Diff_Report'
+    );
+  };
+
+  const renderOutcome = (outcome: TestOutcome | null) => (
+    <>
+      <td className={`p-3 border text-center font-semibold ${!outcome ? 'text-gray-500' : outcome.passed ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+        {outcomeResult(outcome)}
+      </td>
+      <td className={`p-3 border ${!outcome ? 'text-gray-500' : outcome.passed ? 'text-green-600 dark:text-green-500' : 'text-red-500 dark:text-red-500'}`}>
+        {outcomeReason(outcome)}
+      </td>
+    </>
+  );
+
+  const renderTable = (category: DiffCategory, title: string) => {
+    const data = filteredDiffs.filter((d) => d.category === category);
+    const expanded = expandedSections[category] || categoryFilter === category;
+    return (
+      <div className="mt-8" key={category}>
+        <button
+          onClick={() => setExpandedSections(prev => ({ ...prev, [category]: !prev[category] }))}
+          className="text-left w-full text-2xl font-bold mb-2 focus:outline-none bg-gradient-to-r from-blue-300 via-purple-400 to-indigo-400 text-white px-5 py-3 rounded-lg shadow hover:opacity-90 transition duration-300"
+        >
+          <span className="inline-block w-5 text-xl transform transition-transform duration-300">
+            {expanded ? '▼' : '►'}
+          </span>
+          <span className="ml-1">{title} ({data.length})</span>
+        </button>
+        {expanded && (
+          <><div className="text-right mb-2">
+            <button
+              onClick={() => exportCategory(category, title)}
+              className="backdrop-blur-md bg-green-400/10 hover:bg-green-400/20 text-green-500 font-semibold px-6 py-2 rounded-xl border border-green-500 shadow-md hover:shadow-lg transition-all duration-300"
+            >
+              Download Excel
+            </button>
+          </div><div className={`overflow-x-auto border rounded-lg shadow-xl ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}>
+              <table className="table-auto w-full text-sm">
+                <thead className={darkMode ? "bg-gradient-to-r from-indigo-700 via-purple-700 to-blue-700 text-white" : "bg-gray-200 text-gray-800"}>
+                  <tr>
+                    <th className="p-3 border">#</th>
+                    <th className="p-3 border">Test Name</th>
+                    <th className="p-3 border">Language</th>
+                    <th className="p-3 border">{baseLabel} Result</th>
+                    <th className="p-3 border">{baseLabel} Reason</th>
+                    <th className="p-3 border">{headLabel} Result</th>
+                    <th className="p-3 border">{headLabel} Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.map((d, i) => (
+                    <tr key={d.name} className={darkMode ? "even:bg-gray-800" : "even:bg-gray-100"}>
+                      <td className="p-3 border text-center font-mono">{i + 1}</td>
+                      <td className="p-3 border font-bold text-blue-800 dark:text-blue-400">{d.name}</td>
+                      <td className="p-3 border text-center">{d.language ?? 'Other'}</td>
+                      {renderOutcome(d.base)}
+                      {renderOutcome(d.head)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div></>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode}>
+      <h1 className="text-4xl font-extrabold text-center mb-2 bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
+        Test Diff
+      </h1>
+      <p className="text-center text-sm mb-6 text-gray-600 dark:text-gray-400">
+        {baseLabel} → {headLabel}
+      </p>
+      {error && <p className="text-center text-red-500 mb-6">{error}</p>}
+
+      <div className="flex flex-wrap justify-center gap-3 mb-6">
+        {DIFF_CATEGORIES.map(({ key, title }) => (
+          <button
+            key={key}
+            onClick={() => setCategoryFilter(prev => (prev === key ? 'all' : key))}
+            className={`px-4 py-2 rounded-lg border shadow-sm text-sm ${categoryFilter === key ? 'border-indigo-500 bg-indigo-500/20' : darkMode ? 'border-gray-700' : 'border-gray-300'}`}
+          >
+            <span className="block text-2xl font-bold">{counts[key]}</span>
+            {title}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row items-center justify-center gap-4 mb-6">
+        <div>
+          <label htmlFor="categoryFilter" className="mr-2 font-medium">Category:</label>
+          <select
+            id="categoryFilter"
+            className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'} hover:border-blue-400`}
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value as any)}
+          >
+            <option value="all">All Categories</option>
+            {DIFF_CATEGORIES.map(({ key, title }) => (
+              <option key={key} value={key}>{title}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="languageFilter" className="mr-2 font-medium">Language:</label>
+          <select
+            id="languageFilter"
+            className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'} hover:border-blue-400`}
+            value={languageFilter}
+            onChange={(e) => setLanguageFilter(e.target.value as any)}
+          >
+            <option value="all">All</option>
+            <option value="C">C</option>
+            <option value="CPP">C++</option>
+            <option value="F90">Fortran</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="search" className="mr-2 font-medium">Test Name:</label>
+          <input
+            id="search"
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'} hover:border-blue-400`}
+          />
+        </div>
+        <button
+          onClick={exportAll}
+          className="backdrop-blur-md bg-green-400/10 hover:bg-green-400/20 text-green-500 font-semibold px-6 py-2 rounded-xl border border-green-500 shadow-md hover:shadow-lg transition-all duration-300"
+        >
+          Download All Categories
+        </button>
+      </div>
+
+      {DIFF_CATEGORIES
+        .filter(({ key }) => categoryFilter === 'all' || categoryFilter === key)
+        .map(({ key, title }) => renderTable(key, title))}
+    </PageLayout>
+  );
+};
+
+export default DiffPage;
@@ -0,0 +1,71 @@
+import React, { useMemo, useState } from 'react';
+import { CategorizedFailure, clusterFailures } from './errorParser';
+
+interface Props {
+  failures: CategorizedFailure[];
+  darkMode: boolean;
+}
+
+const FailureCausesTable: React.FC<Props> = ({ failures, darkMode }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const causes = useMemo(() => clusterFailures(failures), [failures]);
+
+  if (causes.length === 0) return null;
+
+  return (
+    <div className={`mt-6 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-300 text-black'}`}>
+      <h3 className="text-xl font-semibold mb-4 text-center">Top Failure Causes</h3>
+      <table className="table-auto w-full text-sm">
+        <thead>
+          <tr className={darkMode ? 'bg-gray-900' : 'bg-gray-200'}>
+            <th className="p-2 border text-left">Cause</th>
+            <th className="p-2 border">Tests</th>
+            <th className="p-2 border">Distinct Messages</th>
+          </tr>
+        </thead>
+        <tbody>
+          {causes.map((cause) => (
+            <React.Fragment key={cause.category}>
+              <tr
+                className="cursor-pointer hover:bg-indigo-500/10"
+                onClick={() => setExpanded(prev => (prev === cause.category ? null : cause.category))}
+              >
+                <td className="p-2 border font-semibold">
+                  <span className="inline-block w-4">{expanded === cause.category ? '▼' : '►'}</span>
+                  {cause.label}
+                </td>
+                <td className="p-2 border text-center">{cause.count}</td>
+                <td className="p-2 border text-center">{cause.signatures.length}</td>
+              </tr>
+              {expanded === cause.category && (
+                <tr>
+                  <td colSpan={3} className="p-2 border">
+                    {cause.signatures.map((s) => (
+                      <div key={s.signature} className="mb-3">
+                        <p className="font-mono text-xs text-red-600 dark:text-red-400 break-all">
+                          {s.signature} <span className="text-gray-500">({s.tests.length})</span>
+                        </p>
+                        <ul className="list-disc pl-6 text-xs max-h-40 overflow-y-auto">
+                          {s.tests.map((t, i) => (
+                            <li key={i}>
+                              <strong>{t.name}</strong>: {t.reason}
+                              {t.knownIssue && (
+                                <span className="ml-2 text-yellow-600 dark:text-yellow-400">Known issue: {t.knownIssue}</span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default FailureCausesTable;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { MERGE_POLICIES, MergePolicy, MergeResult } from './merge';
+
+interface Props {
+  merge: MergeResult;
+  policy: MergePolicy;
+  onPolicyChange: (policy: MergePolicy) => void;
+  onExport: () => void;
+  darkMode: boolean;
+}
+
+const MergePanel: React.FC<Props> = ({ merge, policy, onPolicyChange, onExport, darkMode }) => {
+  const [onlyDisagreeing, setOnlyDisagreeing] = useState(true);
+  const disagreeing = merge.conflicts.filter((c) => c.disagree);
+  const shown = onlyDisagreeing ? disagreeing : merge.conflicts;
+
+  return (
+    <div className={`mt-4 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-300 text-black'}`}>
+      <h3 className="text-lg font-semibold mb-2">Merged {merge.files.length} Files</h3>
+      <p className="text-xs text-gray-500 mb-3">In merge order: {merge.files.join(', ')}</p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <label htmlFor="mergePolicy" className="font-semibold text-sm">Conflict policy:</label>
+        <select
+          id="mergePolicy"
+          className={`border p-1 rounded text-sm ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'}`}
+          value={policy}
+          onChange={(e) => onPolicyChange(e.target.value as MergePolicy)}
+        >
+          {MERGE_POLICIES.map((p) => (
+            <option key={p.key} value={p.key}>{p.label}</option>
+          ))}
+        </select>
+        <button
+          className="ml-auto bg-gray-600 hover:bg-gray-700 text-white text-sm px-3 py-1 rounded shadow"
+          onClick={onExport}
+        >
+          Export Merged JSON
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{MERGE_POLICIES.find((p) => p.key === policy)?.description}</p>
+
+      {merge.conflicts.length === 0 ? (
+        <p className="text-sm text-green-600 dark:text-green-400">No test appears in more than one file.</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className={disagreeing.length > 0 ? 'text-red-600 dark:text-red-400' : ''}>
+              {merge.conflicts.length} tests appear in several files, {disagreeing.length} with different outcomes
+            </span>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={onlyDisagreeing} onChange={(e) => setOnlyDisagreeing(e.target.checked)} />
+              Only different outcomes
+            </label>
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            <table className="table-auto w-full text-sm">
+              <thead>
+                <tr className={darkMode ? 'bg-gray-900' : 'bg-gray-200'}>
+                  <th className="p-2 border text-left">Test</th>
+                  <th className="p-2 border text-left">Outcome per File</th>
+                  <th className="p-2 border text-left">Resolution</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((conflict) => (
+                  <tr key={conflict.name}>
+                    <td className="p-2 border font-mono">{conflict.name}</td>
+                    <td className="p-2 border">
+                      {conflict.sources.map((source, i) => (
+                        <div key={i} className={source.outcome.passed ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                          {source.file}: {source.outcome.reason}
+                          {source.runCount > 1 && <span className="text-gray-500"> ({source.runCount} runs)</span>}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="p-2 border">{conflict.resolution}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MergePanel;
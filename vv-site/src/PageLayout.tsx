@@ -0,0 +1,49 @@
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+  backLabel?: string;
+  children: React.ReactNode;
+}
+
+// The background, header bar, back button and dark-mode toggle every page
+// below the summary shares.
+const PageLayout: React.FC<Props> = ({ darkMode, setDarkMode, backLabel = 'Back to Summary', children }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // A deep link opened in a new tab has no history to go back to.
+  const goBack = () => (location.key === 'default' ? navigate('/') : navigate(-1));
+
+  return (
+    <div className={`${darkMode ? 'bg-gradient-to-br from-gray-900 via-gray-800 to-gray-950 text-white' : 'bg-white text-black'} min-h-screen p-8`}>
+        <div
+          className={`w-full h-20 shadow-lg absolute top-0 left-0 z-0 pointer-events-none
+            ${darkMode
+              ? 'bg-gradient-to-r from-gray-800 via-gray-900 to-gray-800 border-b border-gray-700'
+              : 'bg-gradient-to-r from-neutral-100 via-white to-neutral-100 border-b border-gray-200'}
+          `}
+        ></div>
+      <div className="flex justify-between items-center mb-6">
+        <button
+          onClick={goBack}
+          className="flex items-center gap-2 text-sm font-medium px-4 py-2 rounded-lg border border-blue-500 text-blue-500 hover:bg-blue-500/10 transition duration-300 backdrop-blur-sm shadow-sm hover:shadow-md"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+          </svg>
+          {backLabel}
+        </button>
+        <button onClick={() => setDarkMode(prev => !prev)}
+        className="relative z-10 px-4 py-2 bg-indigo-500 text-white rounded shadow hover:bg-indigo-700">
+          Toggle {darkMode ? 'Light' : 'Dark'} Mode
+        </button>
+      </div>
+      {children}
+    </div>
+  );
+};
+
+export default PageLayout;
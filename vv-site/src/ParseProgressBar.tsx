@@ -0,0 +1,25 @@
+import React from 'react';
+import { PHASE_LABELS, ParseProgress } from './backgroundParse';
+import { formatBytes } from './sessions';
+
+interface Props {
+  progress: ParseProgress;
+  onCancel: () => void;
+}
+
+const ParseProgressBar: React.FC<Props> = ({ progress, onCancel }) => (
+  <div className="flex flex-wrap items-center justify-center gap-3 my-3 text-sm">
+    <span>{PHASE_LABELS[progress.phase]}…</span>
+    <progress className="w-64" value={progress.done} max={progress.total || 1} />
+    {progress.phase === 'reading' && <span className="font-mono">{formatBytes(progress.done)} / {formatBytes(progress.total)}</span>}
+    {progress.phase === 'normalizing' && <span className="font-mono">{progress.done} / {progress.total} tests</span>}
+    <button
+      className="px-3 py-1 rounded border border-red-500 text-red-500 hover:bg-red-500/10"
+      onClick={onCancel}
+    >
+      Cancel
+    </button>
+  </div>
+);
+
+export default ParseProgressBar;
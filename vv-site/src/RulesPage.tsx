@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import PageLayout from './PageLayout';
+import {
+  ClassificationRule, FAILURE_CATEGORY_LABELS, classifyFailure, getCategoryLabel, getClassificationRules,
+  keepValidRules, setClassificationRules, validateRules,
+} from './errorParser';
+import { readFileText } from './resultsParser';
+import { downloadText } from './download';
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+function isValidPattern(rule: ClassificationRule): boolean {
+  if (rule.matchType !== 'regex') return true;
+  try {
+    new RegExp(rule.pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const RulesPage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const [rules, setRules] = useState<ClassificationRule[]>(getClassificationRules);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [sample, setSample] = useState('');
+  const [sampleType, setSampleType] = useState<'compiler' | 'runtime'>('compiler');
+
+  // Every edit is saved straight away; the summary and details pages pick the
+  // rules up the next time they are opened. A rule still missing its pattern
+  // or category, or with a broken regex, stays a draft on this page until it
+  // validates.
+  function updateRules(next: ClassificationRule[]) {
+    setRules(next);
+    setClassificationRules(keepValidRules(next));
+  }
+
+  function updateRule(index: number, changes: Partial<ClassificationRule>) {
+    updateRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  }
+
+  function moveRule(index: number, offset: number) {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateRules(next);
+  }
+
+  function addRule() {
+    updateRules([
+      ...rules,
+      { id: `rule-${Date.now()}`, pattern: '', matchType: 'substring', target: 'any', stream: 'any', category: '' },
+    ]);
+  }
+
+  function importRules(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    readFileText(file).then((text) => {
+      try {
+        updateRules(validateRules(JSON.parse(text)));
+        setImportError(null);
+      } catch (e) {
+        setImportError(`${file.name}: ${(e as Error).message}`);
+      }
+    });
+  }
+
+  const savedRules = keepValidRules(rules);
+  const savedIds = new Set(savedRules.map((rule) => rule.id));
+  const sampleResult = sample.trim()
+    ? classifyFailure(sampleType, 'sample', sample.split('\n')[0], { stderr: sample, stdout: '' }, 1, savedRules)
+    : null;
+
+  const inputClass = `w-full border px-2 py-1 rounded ${darkMode ? 'bg-gray-800 text-white border-gray-600' : 'bg-white text-black border-gray-300'}`;
+
+  return (
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode}>
+      <h1 className="text-4xl font-extrabold text-center mb-2 bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
+        Failure Classification Rules
+      </h1>
+      <p className="text-center text-sm mb-6 text-gray-600 dark:text-gray-400 max-w-3xl mx-auto">
+        Rules are checked top to bottom before the built-in heuristics; the first match decides the failure
+        category. Use a built-in category name from the list to merge with the default taxonomy, or any other
+        label to create your own. Rules are saved in this browser.
+      </p>
+
+      <datalist id="builtInCategories">
+        {Object.entries(FAILURE_CATEGORY_LABELS).map(([key, label]) => (
+          <option key={key} value={key}>{label}</option>
+        ))}
+      </datalist>
+
+      <div className="flex flex-wrap justify-center gap-4 mb-4">
+        <button className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded shadow" onClick={addRule}>
+          Add Rule
+        </button>
+        <label className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded shadow cursor-pointer">
+          Import JSON
+          <input type="file" accept=".json" className="hidden" onChange={importRules} />
+        </label>
+        <button
+          className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded shadow"
+          onClick={() => downloadText(JSON.stringify(rules, null, 2), 'failure_rules.json', 'application/json')}
+        >
+          Export JSON
+        </button>
+      </div>
+      {importError && <p className="text-center text-red-500 mb-4">{importError}</p>}
+
+      <div className={`overflow-x-auto border rounded-lg shadow-xl ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}>
+        <table className="table-auto w-full text-sm">
+          <thead className={darkMode ? "bg-gradient-to-r from-indigo-700 via-purple-700 to-blue-700 text-white" : "bg-gray-200 text-gray-800"}>
+            <tr>
+              <th className="p-3 border">#</th>
+              <th className="p-3 border">Pattern</th>
+              <th className="p-3 border">Match</th>
+              <th className="p-3 border">Applies To</th>
+              <th className="p-3 border">Stream</th>
+              <th className="p-3 border">Category</th>
+              <th className="p-3 border">Known Issue Note</th>
+              <th className="p-3 border"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={8} className="p-4 text-center text-gray-500">No rules yet. Only the built-in heuristics are applied.</td>
+              </tr>
+            )}
+            {rules.map((rule, i) => (
+              <tr key={rule.id} className={darkMode ? "even:bg-gray-800" : "even:bg-gray-100"}>
+                <td className="p-2 border text-center font-mono">
+                  {i + 1}
+                  {!savedIds.has(rule.id) && (
+                    <div className="text-xs text-yellow-600 dark:text-yellow-400" title="Not saved until it has a pattern, a category and a valid regex">
+                      draft
+                    </div>
+                  )}
+                </td>
+                <td className="p-2 border">
+                  <input
+                    className={`${inputClass} font-mono ${isValidPattern(rule) ? '' : 'border-red-500'}`}
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(i, { pattern: e.target.value })}
+                    placeholder="e.g. not supported"
+                  />
+                </td>
+                <td className="p-2 border">
+                  <select className={inputClass} value={rule.matchType} onChange={(e) => updateRule(i, { matchType: e.target.value as any })}>
+                    <option value="substring">Substring</option>
+                    <option value="regex">Regex</option>
+                  </select>
+                </td>
+                <td className="p-2 border">
+                  <select className={inputClass} value={rule.target} onChange={(e) => updateRule(i, { target: e.target.value as any })}>
+                    <option value="any">Compiler & Runtime</option>
+                    <option value="compiler">Compiler</option>
+                    <option value="runtime">Runtime</option>
+                  </select>
+                </td>
+                <td className="p-2 border">
+                  <select className={inputClass} value={rule.stream} onChange={(e) => updateRule(i, { stream: e.target.value as any })}>
+                    <option value="any">stderr & stdout</option>
+                    <option value="stderr">stderr</option>
+                    <option value="stdout">stdout</option>
+                  </select>
+                </td>
+                <td className="p-2 border">
+                  <input
+                    className={inputClass}
+                    list="builtInCategories"
+                    value={rule.category}
+                    onChange={(e) => updateRule(i, { category: e.target.value })}
+                  />
+                </td>
+                <td className="p-2 border">
+                  <input
+                    className={inputClass}
+                    value={rule.note || ''}
+                    onChange={(e) => updateRule(i, { note: e.target.value || undefined })}
+                    placeholder="optional"
+                  />
+                </td>
+                <td className="p-2 border whitespace-nowrap text-center">
+                  <button className="px-1" onClick={() => moveRule(i, -1)} aria-label="Move up">▲</button>
+                  <button className="px-1" onClick={() => moveRule(i, 1)} aria-label="Move down">▼</button>
+                  <button
+                    className="px-2 text-red-500 hover:text-red-700"
+                    onClick={() => updateRules(rules.filter((_, j) => j !== i))}
+                    aria-label="Delete rule"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className={`max-w-3xl mx-auto mt-8 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-gray-50 border-gray-300'}`}>
+        <h2 className="text-lg font-semibold mb-2">Try a Message</h2>
+        <div className="flex gap-2 mb-2">
+          <select className={`${inputClass} w-auto`} value={sampleType} onChange={(e) => setSampleType(e.target.value as any)}>
+            <option value="compiler">Compiler stderr</option>
+            <option value="runtime">Runtime stderr</option>
+          </select>
+        </div>
+        <textarea
+          className={`${inputClass} font-mono h-24`}
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder="Paste a compiler or runtime message"
+        />
+        {sampleResult && (
+          <p className="mt-2 text-sm">
+            Category: <strong>{getCategoryLabel(sampleResult.category)}</strong>
+            {sampleResult.knownIssue && <span className="ml-2 text-yellow-600 dark:text-yellow-400">Known issue: {sampleResult.knownIssue}</span>}
+          </p>
+        )}
+      </div>
+    </PageLayout>
+  );
+};
+
+export default RulesPage;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { flattenConfiguration } from './runConfiguration';
+
+interface Props {
+  configuration: any | null;
+  darkMode: boolean;
+}
+
+const RunConfigurationPanel: React.FC<Props> = ({ configuration, darkMode }) => {
+  const rows = flattenConfiguration(configuration);
+
+  return (
+    <details className={`mt-6 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-300 text-black'}`}>
+      <summary className="cursor-pointer text-lg font-semibold">Run Configuration</summary>
+      {rows.length === 0 ? (
+        <p className="text-sm mt-2 text-gray-500">This file has no testsuite_configuration.</p>
+      ) : (
+        <table className="table-auto w-full text-sm mt-2">
+          <tbody>
+            {rows.map(([key, value]) => (
+              <tr key={key} className={darkMode ? 'even:bg-gray-900' : 'even:bg-gray-100'}>
+                <td className="p-2 border font-mono font-semibold whitespace-nowrap align-top">{key}</td>
+                <td className="p-2 border font-mono whitespace-pre-wrap break-all">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </details>
+  );
+};
+
+export default RunConfigurationPanel;
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import PageLayout from './PageLayout';
+import { LanguageVariant, VARIANT_STATUS_LABELS } from './languageConsistency';
+import {
+  API_COLUMNS, API_COLUMN_LABELS, ApiColumn, CONFORMANCE_LABELS, RoutineConformance, RoutineRow,
+  buildRoutineRows, countConformance,
+} from './runtimeApi';
+import { getSpecVersions } from './testIndex';
+import { useParsedResults } from './useParsedResults';
+import ParseProgressBar from './ParseProgressBar';
+import { testPagePath } from './TestPage';
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+const STATUS_COLORS: Record<LanguageVariant['status'], string> = {
+  pass: 'text-green-600 dark:text-green-400',
+  'compile-fail': 'text-red-600 dark:text-red-400',
+  'runtime-fail': 'text-yellow-600 dark:text-yellow-400',
+  unknown: 'text-blue-500 dark:text-blue-400',
+  missing: 'text-gray-500',
+};
+
+const CONFORMANCE_COLORS: Record<RoutineConformance, string> = {
+  pass: 'text-green-600 dark:text-green-400',
+  fail: 'text-red-600 dark:text-red-400',
+  'not-run': 'text-gray-500',
+  untested: 'text-orange-500',
+};
+
+const RuntimeApiPage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const { parsed, session, error, progress, cancel } = useParsedResults();
+  const [targetSpec, setTargetSpec] = useState<string | null>(null);
+  const [filter, setFilter] = useState<'all' | RoutineConformance>('all');
+  const [search, setSearch] = useState('');
+
+  const rows = useMemo(() => (parsed ? buildRoutineRows(parsed.run, targetSpec) : []), [parsed, targetSpec]);
+  const counts = useMemo(() => countConformance(rows), [rows]);
+
+  const shown = rows.filter((row) =>
+    (filter === 'all' || row.conformance === filter) && (!search || row.routine.name.includes(search.toLowerCase()))
+  );
+
+  const renderCell = (row: RoutineRow, column: ApiColumn) => {
+    const variant = row.cells[column];
+    if (!variant) return <td key={column} className="p-2 border text-center text-gray-400">–</td>;
+    const label = variant.status === 'missing' ? (variant.inSuite ? 'Not run' : 'No test') : VARIANT_STATUS_LABELS[variant.status];
+    return (
+      <td
+        key={column}
+        className={`p-2 border text-center font-semibold ${variant.status === 'missing' && !variant.inSuite ? 'text-orange-500' : STATUS_COLORS[variant.status]}`}
+        title={variant.status === 'missing'
+          ? `${variant.name} ${variant.inSuite ? 'is in the test suite but not in these results' : 'is not part of the test suite'}`
+          : `${variant.name}: ${variant.reason}`}
+      >
+        {session && variant.status !== 'missing'
+          ? <Link to={testPagePath(session.id, variant.name)} className="hover:underline">{label}</Link>
+          : label}
+      </td>
+    );
+  };
+
+  return (
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode}>
+      <h1 className="text-4xl font-extrabold text-center mb-6 bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
+        Runtime API Conformance
+      </h1>
+      <p className="text-center text-sm mb-6 text-gray-600 dark:text-gray-400">
+        Every runtime library routine the spec defines, with the result of its dedicated test in each language.
+        Routines without a test are listed too, along with how many other sub-tests call them.
+      </p>
+
+      {progress && <ParseProgressBar progress={progress} onCancel={cancel} />}
+      {error ? (
+        <p className="text-center text-red-500">{error}</p>
+      ) : !parsed ? (
+        <p className="text-center text-gray-500">Loading…</p>
+      ) : (
+        <div className="max-w-6xl mx-auto">
+          <div className="flex flex-wrap justify-center gap-3 mb-4">
+            {(Object.keys(CONFORMANCE_LABELS) as RoutineConformance[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setFilter(prev => (prev === key ? 'all' : key))}
+                className={`px-4 py-2 rounded-lg border shadow-sm text-sm ${filter === key ? 'border-indigo-500 bg-indigo-500/20' : darkMode ? 'border-gray-700' : 'border-gray-300'}`}
+              >
+                <span className={`block text-2xl font-bold ${CONFORMANCE_COLORS[key]}`}>{counts[key]}</span>
+                {CONFORMANCE_LABELS[key]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-center gap-4 mb-4">
+            <div>
+              <label htmlFor="apiSpec" className="mr-2 font-medium">Spec version:</label>
+              <select
+                id="apiSpec"
+                className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'} hover:border-blue-400`}
+                value={targetSpec ?? ''}
+                onChange={(e) => setTargetSpec(e.target.value || null)}
+              >
+                <option value="">All versions</option>
+                {getSpecVersions().map((v) => (
+                  <option key={v} value={v}>OpenACC {v}</option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="search"
+              placeholder="Search routines"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'}`}
+            />
+          </div>
+
+          <div className={`overflow-x-auto border rounded-lg shadow-xl ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}>
+            <table className="table-auto w-full text-sm">
+              <thead className={darkMode ? "bg-gradient-to-r from-indigo-700 via-purple-700 to-blue-700 text-white" : "bg-gray-200 text-gray-800"}>
+                <tr>
+                  <th className="p-3 border text-left">Routine</th>
+                  <th className="p-3 border">Variant</th>
+                  <th className="p-3 border">Since</th>
+                  {API_COLUMNS.map((column) => (
+                    <th key={column} className="p-3 border">{API_COLUMN_LABELS[column]}</th>
+                  ))}
+                  <th className="p-3 border">Conformance</th>
+                  <th className="p-3 border">Called in</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((row, i) => (
+                  <tr
+                    key={row.routine.name}
+                    className={i > 0 && shown[i - 1].routine.family !== row.routine.family ? 'border-t-4' : ''}
+                  >
+                    <td className="p-2 border font-mono">{row.routine.name}</td>
+                    <td className="p-2 border text-center">{row.routine.variant}</td>
+                    <td className="p-2 border text-center font-mono">{row.routine.since}</td>
+                    {API_COLUMNS.map((column) => renderCell(row, column))}
+                    <td className={`p-2 border text-center font-semibold ${CONFORMANCE_COLORS[row.conformance]}`}>
+                      {CONFORMANCE_LABELS[row.conformance]}
+                    </td>
+                    <td className="p-2 border text-center" title="Sub-tests outside the routine's own tests that call it">
+                      {row.calledIn}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shown.length === 0 && <p className="p-4 text-center text-gray-500">No routines match.</p>}
+          </div>
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default RuntimeApiPage;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { SessionInfo, StorageUsage, formatBytes } from './sessions';
+
+interface Props {
+  sessions: SessionInfo[];
+  currentId: string | null;
+  usage: StorageUsage | null;
+  error: string | null;
+  onOpen: (session: SessionInfo) => void;
+  onRename: (session: SessionInfo, name: string) => void;
+  onDelete: (session: SessionInfo) => void;
+  darkMode: boolean;
+}
+
+const SessionPicker: React.FC<Props> = ({ sessions, currentId, usage, error, onOpen, onRename, onDelete, darkMode }) => (
+  <details className={`mt-4 p-3 rounded border ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-gray-50 border-gray-300'}`} open={!currentId && sessions.length > 0}>
+    <summary className="cursor-pointer font-semibold">Saved Sessions ({sessions.length})</summary>
+    {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
+    {sessions.length === 0 && !error && (
+      <p className="text-sm text-gray-500 mt-2">Uploaded files are saved here so they can be reopened after a reload.</p>
+    )}
+    <ul className="text-sm space-y-1 mt-2 max-h-64 overflow-y-auto">
+      {sessions.map((session) => (
+        <li key={session.id} className={`flex items-center gap-2 p-1 rounded ${session.id === currentId ? 'bg-indigo-500/10' : ''}`}>
+          <input
+            type="text"
+            defaultValue={session.name}
+            onBlur={(e) => e.target.value.trim() && e.target.value !== session.name && onRename(session, e.target.value.trim())}
+            aria-label="Session name"
+            className={`flex-1 min-w-0 border px-2 py-1 rounded ${darkMode ? 'bg-gray-900 text-white border-gray-600' : 'bg-white text-black border-gray-300'}`}
+          />
+          <span className="text-xs text-gray-500 whitespace-nowrap" title={session.compiler || undefined}>
+            {new Date(session.createdAt).toLocaleString()} · {session.testCount} tests · {formatBytes(session.size)}
+          </span>
+          <button
+            className="text-blue-500 hover:underline px-1 disabled:opacity-50 disabled:no-underline"
+            disabled={session.id === currentId}
+            onClick={() => onOpen(session)}
+          >
+            Open
+          </button>
+          <button
+            className="text-red-500 hover:text-red-700 px-1"
+            onClick={() => onDelete(session)}
+            aria-label={`Delete ${session.name}`}
+          >
+            ✕
+          </button>
+        </li>
+      ))}
+    </ul>
+    {usage && (
+      <p className="text-xs text-gray-500 mt-2">
+        Sessions use {formatBytes(usage.sessions)}
+        {usage.used !== null && usage.quota !== null && ` (site storage: ${formatBytes(usage.used)} of ${formatBytes(usage.quota)})`}
+      </p>
+    )}
+  </details>
+);
+
+export default SessionPicker;
@@ -0,0 +1,100 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Language } from './resultsParser';
+import { TokenKind, fetchTestSource, tokenizeSource } from './sourceViewer';
+
+interface Props {
+  testName: string;
+  language: Language | null;
+  // Lines named by compiler diagnostics; the pane opens on the first one.
+  diagnosticLines: number[];
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: '',
+  keyword: 'text-purple-400',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-400',
+  number: 'text-orange-300',
+  preprocessor: 'text-pink-400',
+  directive: 'text-yellow-300 font-semibold',
+  api: 'text-cyan-300',
+};
+
+const SourcePane: React.FC<Props> = ({ testName, language, diagnosticLines }) => {
+  // undefined while loading, null when the file is not available.
+  const [source, setSource] = useState<string | null | undefined>(undefined);
+  const [selectedLine, setSelectedLine] = useState<number | null>(diagnosticLines[0] ?? null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lineRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource(undefined);
+    fetchTestSource(testName).then((text) => {
+      if (!cancelled) setSource(text);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [testName]);
+
+  const lines = useMemo(() => (source ? tokenizeSource(source, language) : []), [source, language]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const target = selectedLine !== null ? lineRefs.current[selectedLine] : null;
+    if (container && target) {
+      container.scrollTop = target.offsetTop - container.clientHeight / 2;
+    }
+  }, [selectedLine, lines]);
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h3 className="font-bold text-purple-400">Source:</h3>
+        <span className="font-mono text-sm">{testName}</span>
+        {diagnosticLines.map((line) => (
+          <button
+            key={line}
+            onClick={() => setSelectedLine(line)}
+            className={`px-2 py-0.5 text-xs rounded border font-mono ${selectedLine === line ? 'border-red-400 bg-red-500/30' : 'border-gray-600 hover:border-red-400'}`}
+          >
+            line {line}
+          </button>
+        ))}
+      </div>
+      {source === undefined && <p className="text-sm text-gray-400">Loading source…</p>}
+      {source === null && (
+        <p className="text-sm text-gray-400">No source found for {testName} in the bundled test suite.</p>
+      )}
+      {source && (
+        <div ref={containerRef} className="relative max-h-96 overflow-auto rounded border border-gray-700 bg-gray-950 text-sm font-mono">
+          {lines.map((tokens, i) => {
+            const lineNumber = i + 1;
+            const isDiagnostic = diagnosticLines.includes(lineNumber);
+            return (
+              <div
+                key={lineNumber}
+                ref={(el) => {
+                  lineRefs.current[lineNumber] = el;
+                }}
+                className={`flex whitespace-pre ${lineNumber === selectedLine ? 'bg-red-500/30' : isDiagnostic ? 'bg-red-500/10' : ''}`}
+              >
+                <span className={`select-none w-12 shrink-0 pr-2 text-right ${isDiagnostic ? 'text-red-400 font-bold' : 'text-gray-600'}`}>
+                  {lineNumber}
+                </span>
+                <span>
+                  {tokens.map((token, j) => (
+                    <span key={j} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+                  ))}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourcePane;
@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import PageLayout from './PageLayout';
+import { NormalizedRun, TestResult, getLanguage, getTestFailure, isRuntimeFailure } from './resultsParser';
+import { getCategoryLabel, getCompilerStatus, getRuntimeStatus } from './errorParser';
+import { getSubtestResults } from './testIndex';
+import { EXPECTATION_LABELS, getTestExpectation } from './baseline';
+import { StoredRun, TestHistoryEntry, buildTestHistory } from './trends';
+import { SessionInfo, listSessions, loadSession } from './sessions';
+import { findDiagnosticLines } from './sourceViewer';
+import { useParsedResults } from './useParsedResults';
+import ParseProgressBar from './ParseProgressBar';
+import { parseWithoutLogs } from './backgroundParse';
+import SourcePane from './SourcePane';
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+export function testPagePath(sessionId: string, testName: string): string {
+  return `/test/${sessionId}/${encodeURIComponent(testName)}`;
+}
+
+function LogBlock({ title, text, color }: { title: string; text: string; color: string }) {
+  return (
+    <>
+      <h4 className={`mt-3 font-bold ${color}`}>{title}:</h4>
+      <pre className="whitespace-pre-wrap text-xs">{text || '(none)'}</pre>
+    </>
+  );
+}
+
+// Every stored session's run, parsed off the main thread once per page load
+// for the history. Keyed by size too, since updateSession rewrites a file.
+const historyRuns = new Map<string, Promise<NormalizedRun | null>>();
+
+function loadHistoryRun(info: SessionInfo): Promise<NormalizedRun | null> {
+  const key = `${info.id}/${info.size}`;
+  let run = historyRuns.get(key);
+  if (!run) {
+    run = loadSession(info.id)
+      .then((stored) => {
+        if (!stored) return null;
+        const job = parseWithoutLogs(stored.rawJson, () => undefined);
+        return job.promise.then((parsed) => parsed.run).finally(job.cancel);
+      })
+      .catch(() => {
+        // Sessions that cannot be read or parsed are left out, and tried
+        // again next time.
+        historyRuns.delete(key);
+        return null;
+      });
+    historyRuns.set(key, run);
+  }
+  return run;
+}
+
+const TestPage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const navigate = useNavigate();
+  const { testName = '' } = useParams<{ testName: string }>();
+  const { parsed, session, error, progress, cancel } = useParsedResults();
+  const [history, setHistory] = useState<TestHistoryEntry[]>([]);
+  const [copied, setCopied] = useState(false);
+  const [copyError, setCopyError] = useState<string | null>(null);
+  const [withLogs, setWithLogs] = useState<TestResult | null>(null);
+  const [logError, setLogError] = useState<string | null>(null);
+
+  const test = useMemo(() => parsed?.run.tests.find((t) => t.name === testName) ?? null, [parsed, testName]);
+  const subtests = useMemo(() => (test ? getSubtestResults(test) : []), [test]);
+  const failure = test ? getTestFailure(test) : null;
+  const expectation = test ? getTestExpectation(test) : null;
+
+  // The parsed run has no logs; the runs panel fetches this test's.
+  useEffect(() => {
+    setWithLogs(null);
+    setLogError(null);
+    if (!parsed) return;
+    let cancelled = false;
+    parsed.logs.test(testName)
+      .then((full) => !cancelled && setWithLogs(full))
+      .catch((e: Error) => !cancelled && setLogError(`The logs could not be loaded: ${e.message}`));
+    return () => {
+      cancelled = true;
+    };
+  }, [parsed, testName]);
+
+  // Reads every stored session for the history, one at a time; a single
+  // session has none.
+  useEffect(() => {
+    let cancelled = false;
+    listSessions()
+      .then((sessions) => (sessions.length < 2 ? [] : sessions.reduce<Promise<StoredRun[]>>(
+        (previous, info) => previous.then((runs) => loadHistoryRun(info).then((results) => (
+          results ? [...runs, { id: info.id, label: info.name, savedAt: info.createdAt, results }] : runs
+        ))),
+        Promise.resolve([])
+      )))
+      .then((runs) => !cancelled && setHistory(buildTestHistory(runs, testName)))
+      .catch(() => !cancelled && setHistory([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [testName]);
+
+  function copyLink() {
+    setCopyError(null);
+    if (!navigator.clipboard) {
+      setCopyError('This browser cannot copy from the page; copy the address bar instead.');
+      return;
+    }
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => setCopied(true))
+      .catch((e: Error) => setCopyError(`The link could not be copied: ${e.message}`));
+  }
+
+  const panelClass = `mt-6 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-300 text-black'}`;
+  const passClass = (passed: boolean) => (passed ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400');
+
+  return (
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode} backLabel="Back">
+      <h1 className="text-4xl font-extrabold text-center mb-2 font-mono bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
+        {testName}
+      </h1>
+      <div className="flex justify-center items-center gap-3 mb-6 text-sm text-gray-600 dark:text-gray-400">
+        {session && <span>{session.name}</span>}
+        <button className="text-blue-500 hover:underline" onClick={copyLink}>{copied ? 'Link copied' : 'Copy Link'}</button>
+      </div>
+      {copyError && <p className="text-center text-sm text-red-500 -mt-4 mb-6">{copyError}</p>}
+      {progress && <ParseProgressBar progress={progress} onCancel={cancel} />}
+      {error && <p className="text-center text-red-500">{error}</p>}
+      {parsed && !test && <p className="text-center text-red-500">{testName} is not in this session.</p>}
+
+      {test && (
+        <div className="max-w-5xl mx-auto">
+          <div className={`${panelClass} grid md:grid-cols-2 gap-4`}>
+            <div>
+              <h3 className="text-lg font-semibold">Compiler</h3>
+              <p className={`font-semibold ${passClass(test.compiler.result === 0)}`}>Result: {test.compiler.result}</p>
+              <p className="text-sm">{test.compiler.reason}</p>
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold">Runtime</h3>
+              <p className={`font-semibold ${test.runtime.result === 'Unknown' ? 'text-blue-500 dark:text-blue-400' : passClass(!isRuntimeFailure(test.runtime.result))}`}>
+                Result: {test.runtime.result}
+              </p>
+              <p className="text-sm">{test.runtime.reason}</p>
+            </div>
+            {(failure || expectation) && (
+              <p className="md:col-span-2 text-sm">
+                {failure && <>Cause: <strong>{getCategoryLabel(failure.category)}</strong></>}
+                {failure?.knownIssue && <span className="ml-2">({failure.knownIssue})</span>}
+                {expectation && <span className="ml-4">Baseline: <strong>{EXPECTATION_LABELS[expectation.status]}</strong></span>}
+              </p>
+            )}
+          </div>
+
+          {subtests.length > 0 && (
+            <div className={panelClass}>
+              <h3 className="text-lg font-semibold mb-2">Sub-tests</h3>
+              <table className="table-auto w-full text-sm">
+                <thead>
+                  <tr className={darkMode ? 'bg-gray-900' : 'bg-gray-200'}>
+                    <th className="p-2 border">Sub-test</th>
+                    <th className="p-2 border text-left">Features</th>
+                    <th className="p-2 border text-left">OpenACC usage</th>
+                    <th className="p-2 border">Status</th>
+                    <th className="p-2 border text-left">Reason</th>
+                    <th className="p-2 border">Lines</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {subtests.map((t) => (
+                    <tr key={t.id}>
+                      <td className="p-2 border text-center font-mono">{t.id}</td>
+                      <td className="p-2 border">
+                        {t.tags.join(', ')}{t.version && <span className="ml-2 font-mono">V:{t.version}</span>}
+                      </td>
+                      <td className="p-2 border font-mono text-xs">
+                        {t.directives.length > 0 && <div>{t.directives.join(', ')}</div>}
+                        {t.clauses.length > 0 && <div className="text-gray-500">{t.clauses.join(', ')}</div>}
+                        {t.apiCalls.length > 0 && <div className="text-purple-600 dark:text-purple-400">{t.apiCalls.join(', ')}</div>}
+                      </td>
+                      <td className={`p-2 border text-center font-semibold ${t.status === 'unknown' ? 'text-blue-500 dark:text-blue-400' : passClass(t.status === 'pass')}`}>
+                        {t.status}
+                      </td>
+                      <td className="p-2 border">{t.reason}</td>
+                      <td className="p-2 border text-center font-mono">L{t.line}–{t.endLine}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className={panelClass}>
+            <h3 className="text-lg font-semibold mb-2">Runs ({test.runs.length})</h3>
+            {!withLogs && <p className="text-sm text-gray-500">{logError ?? 'Loading logs…'}</p>}
+            {withLogs?.runs.map((run, i) => {
+              const compiler = getCompilerStatus(run);
+              const runtime = getRuntimeStatus(run);
+              const compiled = compiler.result === 0;
+              return (
+                <details key={i} className="mb-2" open={test.runs.length === 1}>
+                  <summary className="cursor-pointer">
+                    Run {i + 1}:{' '}
+                    <span className={passClass(compiled)}>compiler {compiler.result}</span>
+                    {compiled && (
+                      <span className={`ml-2 ${passClass(!isRuntimeFailure(runtime.result))}`}>runtime {runtime.result}</span>
+                    )}
+                  </summary>
+                  <div className="pl-4 font-mono">
+                    <LogBlock title="Compiler Stdout" text={compiler.stdout} color="text-blue-600 dark:text-blue-400" />
+                    <LogBlock title="Compiler Stderr" text={compiler.stderr} color="text-blue-600 dark:text-blue-400" />
+                    {compiled && <LogBlock title="Runtime Output" text={runtime.output} color="text-green-600 dark:text-green-400" />}
+                    {compiled && <LogBlock title="Runtime Stderr" text={runtime.stderr} color="text-red-600 dark:text-red-400" />}
+                  </div>
+                </details>
+              );
+            })}
+          </div>
+
+          {history.length > 0 && (
+            <div className={panelClass}>
+              <h3 className="text-lg font-semibold mb-2">History Across Sessions</h3>
+              <table className="table-auto w-full text-sm">
+                <thead>
+                  <tr className={darkMode ? 'bg-gray-900' : 'bg-gray-200'}>
+                    <th className="p-2 border text-left">Session</th>
+                    <th className="p-2 border">Date</th>
+                    <th className="p-2 border text-left">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map((entry) => (
+                    <tr key={entry.id} className={entry.id === session?.id ? 'bg-indigo-500/10' : ''}>
+                      <td className="p-2 border">
+                        {entry.outcome && entry.id !== session?.id ? (
+                          <button className="text-blue-500 hover:underline" onClick={() => navigate(testPagePath(entry.id, testName))}>
+                            {entry.label}
+                          </button>
+                        ) : entry.label}
+                      </td>
+                      <td className="p-2 border text-center">{new Date(entry.time).toLocaleDateString()}</td>
+                      <td className={`p-2 border ${entry.outcome ? passClass(entry.outcome.passed) : 'text-gray-500'}`}>
+                        {entry.outcome ? entry.outcome.reason : 'Not in this run'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {withLogs && (
+            <div className="mt-6 p-4 rounded border border-gray-700 bg-gray-900 text-white">
+              <SourcePane
+                key={test.name}
+                testName={test.name}
+                language={getLanguage(test.name)}
+                diagnosticLines={findDiagnosticLines(`${withLogs.compiler.stdout}\n${withLogs.compiler.stderr}`, test.name)}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default TestPage;
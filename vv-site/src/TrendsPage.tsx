@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import PageLayout from './PageLayout';
+import {
+  LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer,
+} from 'recharts';
+import { LANGUAGES, RESULT_FILE_TYPES, parseResultsFile, readFileText } from './resultsParser';
+import { OrderedEntry, buildFlipHistory, buildTrendData, orderSeries, seriesLabel } from './trends';
+import { seriesColor } from './comparison';
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+const TrendsPage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const [series, setSeries] = useState<OrderedEntry[]>([]);
+  const [flakyOnly, setFlakyOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function handleFiles(event: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(event.target.files || []);
+    Promise.all(files.map(readFileText))
+      .then((texts) => {
+        setSeries(orderSeries(texts.map((text, i) => ({ fileName: files[i].name, results: parseResultsFile(files[i].name, text) }))));
+        setError(null);
+      })
+      .catch((e: Error) => setError(e.message));
+  }
+
+  const compilerData = useMemo(() => buildTrendData(series, 'compiler'), [series]);
+  const runtimeData = useMemo(() => buildTrendData(series, 'runtime'), [series]);
+  const histories = useMemo(() => buildFlipHistory(series).filter((h) => h.flips > 0), [series]);
+  const visibleHistories = flakyOnly ? histories.filter((h) => h.flaky) : histories;
+  const flakyCount = histories.filter((h) => h.flaky).length;
+
+  const renderChart = (title: string, data: object[]) => (
+    <div className={`h-80 mt-6 p-4 rounded border ${darkMode ? 'bg-gray-800 border-gray-600' : 'bg-gray-50 border-gray-300'}`}>
+      <h3 className="font-semibold mb-2">{title}</h3>
+      <ResponsiveContainer width="100%" height="90%">
+        <LineChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 5 }}>
+          <XAxis dataKey="label" />
+          <YAxis
+            domain={[0, 100]}
+            label={{
+              value: 'Pass Rate (%)',
+              angle: -90,
+              position: 'insideLeft',
+              offset: 10,
+              style: { textAnchor: 'middle', fill: darkMode ? '#fff' : '#000' },
+            }}
+          />
+          <Tooltip
+            contentStyle={darkMode ? { backgroundColor: '#1f2937', color: '#fff' } : undefined}
+            formatter={(value) => (value === null ? 'n/a' : `${value}%`)}
+          />
+          <Legend />
+          {LANGUAGES.map((lang, i) => (
+            <Line key={lang} type="monotone" dataKey={lang} stroke={seriesColor(i)} connectNulls />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode}>
+      <h1 className="text-4xl font-extrabold text-center mb-6 bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
+        Historical Trends
+      </h1>
+
+      <div className={`max-w-2xl mx-auto mb-8 border rounded-lg shadow-xl p-6 ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'}`}>
+        <p className="text-center text-sm mb-4 text-gray-700 dark:text-gray-400">
+          Upload a series of result files (e.g. nightly runs). They are ordered by the date in their
+          testsuite_configuration when every file has one, otherwise by file name.
+        </p>
+        <div className="flex flex-col items-center">
+          <input type="file" accept={RESULT_FILE_TYPES} multiple onChange={handleFiles} className="mb-3" />
+          {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
+          {series.length > 0 && (
+            <ol className="text-sm list-decimal pl-5 text-gray-700 dark:text-gray-400">
+              {series.map((entry) => (
+                <li key={entry.fileName}>{seriesLabel(entry)}{entry.timestamp !== null && ` (${entry.fileName})`}</li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {series.length > 0 && (
+        <div className="max-w-6xl mx-auto">
+          {renderChart('Compiler Pass Rate', compilerData)}
+          {renderChart('Runtime Pass Rate', runtimeData)}
+
+          <div className="mt-8">
+            <div className="flex justify-between items-center mb-2">
+              <h2 className="text-2xl font-bold">Flip History</h2>
+              <label className="text-sm">
+                <input type="checkbox" className="mr-2" checked={flakyOnly} onChange={(e) => setFlakyOnly(e.target.checked)} />
+                Only flaky tests ({flakyCount})
+              </label>
+            </div>
+            <p className="text-sm mb-4 text-gray-600 dark:text-gray-400">
+              Tests whose outcome changed at least once. Flaky tests, which flip back and forth, are highlighted.
+            </p>
+            <div className={`overflow-x-auto border rounded-lg shadow-xl ${darkMode ? 'bg-gray-900' : 'bg-white'}`}>
+              <table className="table-auto text-sm">
+                <tbody>
+                  {visibleHistories.map((h) => (
+                    <tr key={h.name} className={h.flaky ? (darkMode ? 'bg-yellow-900/40' : 'bg-yellow-100') : ''}>
+                      <td className="p-2 border font-bold whitespace-nowrap">
+                        {h.name}
+                        {h.flaky && <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400">flaky</span>}
+                      </td>
+                      {h.outcomes.map((outcome, i) => (
+                        <td
+                          key={i}
+                          title={`${seriesLabel(series[i])}: ${outcome === null ? 'absent' : outcome ? 'pass' : 'fail'}`}
+                          className={`w-6 border ${outcome === null ? 'bg-gray-400' : outcome ? 'bg-green-500' : 'bg-red-500'}`}
+                        />
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default TrendsPage;
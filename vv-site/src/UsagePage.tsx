@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import PageLayout from './PageLayout';
+import { LANGUAGES } from './resultsParser';
+import { CoverageCell, heatColor, passRate } from './featureCoverage';
+import { USAGE_KIND_LABELS, UsageKind, UsagePassRate, buildUsagePassRates } from './directiveUsage';
+import { useParsedResults } from './useParsedResults';
+import ParseProgressBar from './ParseProgressBar';
+import { testPagePath } from './TestPage';
+
+interface Props {
+  darkMode: boolean;
+  setDarkMode: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+const UsagePage: React.FC<Props> = ({ darkMode, setDarkMode }) => {
+  const { parsed, session, error, progress, cancel } = useParsedResults();
+  const [kind, setKind] = useState<UsageKind>('clauses');
+  const [suspectsOnly, setSuspectsOnly] = useState(false);
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const rows = useMemo(() => (parsed ? buildUsagePassRates(parsed.run, kind) : []), [parsed, kind]);
+  const suspects = rows.filter((row) => row.suspect).length;
+
+  const shown = rows.filter((row) =>
+    (!suspectsOnly || row.suspect) && (!search || row.feature.includes(search.toLowerCase()))
+  );
+
+  const renderCell = (cell: CoverageCell, key: string) => {
+    const rate = passRate(cell);
+    return (
+      <td
+        key={key}
+        className="p-2 border text-center text-white font-semibold"
+        style={{ backgroundColor: heatColor(rate, darkMode) }}
+        title={`Pass: ${cell.pass}, Fail: ${cell.fail}, Unknown: ${cell.unknown}, Not run: ${cell.notRun}`}
+      >
+        {rate === null ? '–' : `${Math.round(rate * 100)}%`}
+        <div className="text-xs font-normal">{cell.pass} / {cell.pass + cell.fail}</div>
+      </td>
+    );
+  };
+
+  const renderSites = (row: UsagePassRate) => (
+    <tr>
+      <td colSpan={LANGUAGES.length + 4} className={`p-3 border text-xs ${darkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
+        <p className="font-semibold mb-1">Failing sub-tests ({row.failing.length})</p>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 font-mono mb-2">
+          {row.failing.map((site) => (
+            <span key={`${site.fileName} ${site.subtestId}`}>
+              {session
+                ? <Link to={testPagePath(session.id, site.fileName)} className="text-red-600 dark:text-red-400 hover:underline">{site.fileName}</Link>
+                : <span className="text-red-600 dark:text-red-400">{site.fileName}</span>}
+              {' '}{site.subtestId}
+            </span>
+          ))}
+        </div>
+        <p className="text-gray-500">
+          Used by {row.sites.length} sub-tests in {new Set(row.sites.map((site) => site.fileName)).size} files
+        </p>
+      </td>
+    </tr>
+  );
+
+  return (
+    <PageLayout darkMode={darkMode} setDarkMode={setDarkMode}>
+      <h1 className="text-4xl font-extrabold text-center mb-6 bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600 dark:from-purple-400 dark:to-blue-400">
+        Directive and Clause Pass Rates
+      </h1>
+      <p className="text-center text-sm mb-6 text-gray-600 dark:text-gray-400">
+        Pass rate of the sub-tests using each OpenACC directive, clause or runtime routine, lowest first.
+        Rows well below the overall pass rate point at what the compiler likely mishandles.
+      </p>
+
+      {progress && <ParseProgressBar progress={progress} onCancel={cancel} />}
+      {error ? (
+        <p className="text-center text-red-500">{error}</p>
+      ) : rows.length === 0 ? (
+        <p className="text-center text-gray-500">{parsed ? 'No tagged tests found in the uploaded results.' : 'Loading…'}</p>
+      ) : (
+        <div className="max-w-5xl mx-auto">
+          <div className="flex flex-wrap items-center justify-center gap-4 mb-4">
+            <div>
+              <label htmlFor="usageKind" className="mr-2 font-medium">Group by:</label>
+              <select
+                id="usageKind"
+                className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'} hover:border-blue-400`}
+                value={kind}
+                onChange={(e) => {
+                  setKind(e.target.value as UsageKind);
+                  setExpanded(null);
+                }}
+              >
+                {(Object.keys(USAGE_KIND_LABELS) as UsageKind[]).map((k) => (
+                  <option key={k} value={k}>{USAGE_KIND_LABELS[k]}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={suspectsOnly} onChange={(e) => setSuspectsOnly(e.target.checked)} />
+              Likely mishandled only ({suspects})
+            </label>
+            <input
+              type="search"
+              placeholder="Search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className={`border p-2 rounded ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-black'}`}
+            />
+          </div>
+
+          <div className={`overflow-x-auto border rounded-lg shadow-xl ${darkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}>
+            <table className="table-auto w-full text-sm">
+              <thead className={darkMode ? "bg-gradient-to-r from-indigo-700 via-purple-700 to-blue-700 text-white" : "bg-gray-200 text-gray-800"}>
+                <tr>
+                  <th className="p-3 border text-left">{USAGE_KIND_LABELS[kind]}</th>
+                  {LANGUAGES.map((lang) => (
+                    <th key={lang} className="p-3 border">{lang}</th>
+                  ))}
+                  <th className="p-3 border">All</th>
+                  <th className="p-3 border">vs. overall</th>
+                  <th className="p-3 border">Failing</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((row) => (
+                  <React.Fragment key={row.feature}>
+                    <tr
+                      className={`cursor-pointer ${row.suspect ? 'bg-red-500/15' : ''}`}
+                      onClick={() => setExpanded((prev) => (prev === row.feature ? null : row.feature))}
+                    >
+                      <td className="p-3 border font-mono font-bold">
+                        {expanded === row.feature ? '▼' : '►'} {row.feature}
+                      </td>
+                      {LANGUAGES.map((lang) => renderCell(row.byLanguage[lang], lang))}
+                      {renderCell(row.overall, 'all')}
+                      <td className={`p-2 border text-center font-semibold ${row.suspect ? 'text-red-600 dark:text-red-400' : ''}`}>
+                        {row.delta === null ? '–' : `${row.delta > 0 ? '+' : ''}${Math.round(row.delta * 100)} pts`}
+                      </td>
+                      <td className="p-2 border text-center">{row.failing.length}</td>
+                    </tr>
+                    {expanded === row.feature && renderSites(row)}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+            {shown.length === 0 && <p className="p-4 text-center text-gray-500">Nothing matches.</p>}
+          </div>
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default UsagePage;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { FORMAT_LABELS, NormalizedRun } from './resultsParser';
+
+interface Props {
+  results: NormalizedRun;
+  darkMode: boolean;
+}
+
+// Past this many warnings the list only shows the first ones.
+const MAX_LISTED = 500;
+
+const ValidationPanel: React.FC<Props> = ({ results, darkMode }) => {
+  const skipped = results.warnings.filter((w) => w.skipped).length;
+  const other = results.warnings.length - skipped;
+
+  return (
+    <div className={`mt-4 p-4 rounded border text-sm ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-300 text-black'}`}>
+      <p>
+        <span className="font-semibold">Detected format:</span> {FORMAT_LABELS[results.format]}
+      </p>
+      <p>
+        <span className="text-green-600 dark:text-green-400">{results.tests.length} tests accepted</span>
+        {', '}
+        <span className={skipped > 0 ? 'text-red-600 dark:text-red-400' : ''}>{skipped} entries skipped</span>
+        {other > 0 && <span className="text-yellow-600 dark:text-yellow-400">, {other} warnings</span>}
+      </p>
+
+      {results.warnings.length > 0 && (
+        <details className="mt-2">
+          <summary className="cursor-pointer hover:underline">Show skipped entries and warnings</summary>
+          <div className="max-h-64 overflow-y-auto mt-2">
+            <table className="table-auto w-full">
+              <thead>
+                <tr className={darkMode ? 'bg-gray-900' : 'bg-gray-200'}>
+                  <th className="p-2 border text-left">Entry</th>
+                  <th className="p-2 border text-left">Outcome</th>
+                  <th className="p-2 border text-left">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.warnings.slice(0, MAX_LISTED).map((warning, i) => (
+                  <tr key={i}>
+                    <td className="p-2 border font-mono">{warning.entry}</td>
+                    <td className={`p-2 border ${warning.skipped ? 'text-red-600 dark:text-red-400' : 'text-yellow-600 dark:text-yellow-400'}`}>
+                      {warning.skipped ? 'Skipped' : 'Warning'}
+                    </td>
+                    <td className="p-2 border">{warning.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {results.warnings.length > MAX_LISTED && (
+            <p className="text-xs text-gray-500 mt-1">Showing the first {MAX_LISTED} of {results.warnings.length}.</p>
+          )}
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,181 @@
+import { Mode, NormalizedRun, Summary, TestResult, parseResults, summarizeResults, withoutLogs } from './resultsParser';
+import { getClassificationRules } from './errorParser';
+
+export interface ParseProgress {
+  phase: 'reading' | 'parsing' | 'normalizing' | 'summarizing';
+  // Bytes while reading, tests while normalizing.
+  done: number;
+  total: number;
+}
+
+export interface ParsedResults {
+  run: NormalizedRun;
+  // For all spec versions; a target spec is applied on the page.
+  summaries: Record<Mode, Summary>;
+}
+
+// Fetches what parseWithoutLogs left out of the run.
+export interface RunLogs {
+  // One test with the logs of its runs, or null when the run has no such test.
+  test: (name: string) => Promise<TestResult | null>;
+  // The whole run with every log, for the exports.
+  fullRun: () => Promise<NormalizedRun>;
+}
+
+export interface ParsedResultsWithoutLogs extends ParsedResults {
+  logs: RunLogs;
+}
+
+// A running job; cancel() stops it and rejects `promise` with an AbortError.
+export interface BackgroundJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export const PHASE_LABELS: Record<ParseProgress['phase'], string> = {
+  reading: 'Reading file',
+  parsing: 'Parsing',
+  normalizing: 'Processing tests',
+  summarizing: 'Summarising',
+};
+
+function aborted(): Error {
+  const error = new Error('Cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof Error && e.name === 'AbortError';
+}
+
+export function readFileWithProgress(file: File, onProgress: (progress: ParseProgress) => void): BackgroundJob<string> {
+  const reader = new FileReader();
+  const promise = new Promise<string>((resolve, reject) => {
+    reader.onprogress = (e) => onProgress({ phase: 'reading', done: e.loaded, total: e.total || file.size });
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.onabort = () => reject(aborted());
+    reader.readAsText(file);
+  });
+  return { promise, cancel: () => reader.abort() };
+}
+
+function parseAndSummarize(text: string): ParsedResults {
+  const run = parseResults(text);
+  return { run, summaries: { compiler: summarizeResults(run, 'compiler'), runtime: summarizeResults(run, 'runtime') } };
+}
+
+// Starts a worker on `text`. With `withLogs` false it stays alive after
+// parsing, holding the full run, until the job is cancelled.
+function startWorker(text: string, withLogs: boolean, onProgress: (progress: ParseProgress) => void) {
+  const worker = new Worker(new URL('./resultsWorker.ts', import.meta.url));
+  const replies = new Map<number, { resolve: (value: any) => void; reject: (e: Error) => void }>();
+  let nextId = 0;
+  let stopped = false;
+  let rejectJob: (e: Error) => void = () => undefined;
+
+  const stop = (error: Error) => {
+    stopped = true;
+    worker.terminate();
+    rejectJob(error);
+    replies.forEach((reply) => reply.reject(error));
+    replies.clear();
+  };
+
+  const promise = new Promise<ParsedResults>((resolve, reject) => {
+    rejectJob = reject;
+    worker.onmessage = (event) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+      } else if (message.type === 'reply') {
+        replies.get(message.id)?.resolve(message.value);
+        replies.delete(message.id);
+      } else if (message.type === 'done') {
+        resolve(message.result);
+        if (withLogs) stop(aborted());
+      } else {
+        stop(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => stop(new Error(event.message || 'The results could not be parsed.'));
+    worker.postMessage({ type: 'parse', text, rules: getClassificationRules(), withLogs });
+  });
+
+  const ask = (request: { type: 'test'; name: string } | { type: 'run' }): Promise<any> => {
+    if (stopped) return Promise.reject(aborted());
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      replies.set(id, { resolve, reject });
+      worker.postMessage({ ...request, id });
+    });
+  };
+
+  return { promise, ask, cancel: () => stop(aborted()) };
+}
+
+// Parses and summarises a result file in a Web Worker so large files do not
+// block the page. Without Worker support it parses on the main thread.
+export function parseInBackground(text: string, onProgress: (progress: ParseProgress) => void): BackgroundJob<ParsedResults> {
+  if (typeof Worker === 'undefined') {
+    return { promise: new Promise((resolve) => resolve(parseAndSummarize(text))), cancel: () => undefined };
+  }
+  const { promise, cancel } = startWorker(text, true, onProgress);
+  return { promise, cancel };
+}
+
+// As parseInBackground, but the run comes back without its logs, which stay
+// in the worker until the job is cancelled.
+export function parseWithoutLogs(text: string, onProgress: (progress: ParseProgress) => void): BackgroundJob<ParsedResultsWithoutLogs> {
+  if (typeof Worker === 'undefined') {
+    const promise = new Promise<ParsedResultsWithoutLogs>((resolve) => {
+      const { run, summaries } = parseAndSummarize(text);
+      resolve({
+        run: withoutLogs(run),
+        summaries,
+        logs: {
+          test: (name) => Promise.resolve(run.tests.find((t) => t.name === name) ?? null),
+          fullRun: () => Promise.resolve(run),
+        },
+      });
+    });
+    return { promise, cancel: () => undefined };
+  }
+
+  const { promise, ask, cancel } = startWorker(text, false, onProgress);
+  return {
+    promise: promise.then((parsed) => ({
+      ...parsed,
+      logs: {
+        test: (name) => ask({ type: 'test', name }),
+        fullRun: () => ask({ type: 'run' }),
+      },
+    })),
+    cancel,
+  };
+}
+
+// The pages below the summary share the last file parsed for them, so moving
+// between them parses it once. Replacing the file stops the previous worker.
+let shared: { text: string; job: BackgroundJob<ParsedResultsWithoutLogs>; listeners: Set<(progress: ParseProgress) => void> } | null = null;
+
+// parseWithoutLogs through that cache. Cancelling the job cancels it for
+// every page waiting on it.
+export function parseShared(text: string, onProgress: (progress: ParseProgress) => void): BackgroundJob<ParsedResultsWithoutLogs> {
+  if (!shared || shared.text !== text) {
+    shared?.job.cancel();
+    const listeners = new Set<(progress: ParseProgress) => void>();
+    const entry = { text, job: parseWithoutLogs(text, (p) => listeners.forEach((listener) => listener(p))), listeners };
+    // A failed or cancelled parse is not kept.
+    entry.job.promise.catch(() => {
+      if (shared === entry) shared = null;
+    });
+    shared = entry;
+  }
+  const { job, listeners } = shared;
+  listeners.add(onProgress);
+  const stopListening = () => listeners.delete(onProgress);
+  job.promise.then(stopListening, stopListening);
+  return job;
+}
@@ -0,0 +1,93 @@
+import {
+  BaselineEntry, applyBaseline, createBaseline, getTestExpectation, keepValidEntries, setBaseline, validateBaseline,
+} from './baseline';
+import { parseResults } from './resultsParser';
+
+const results = parseResults(JSON.stringify({
+  runs: {
+    'acc_copyin.c': [{ compilation: { result: 0 }, runtime: { result: 2, errors: 'Test failed' } }],
+    'acc_copyout.c': [{ compilation: { result: 1, errors: 'error: unsupported clause' } }],
+    'acc_create.c': [{ compilation: { result: 0 }, runtime: { result: 0 } }],
+    'acc_delete.c': [{ compilation: { result: 0 }, runtime: { result: 1, errors: 'Test failed' } }],
+  },
+}));
+
+test('splits failures into expected, unexpected and unexpectedly passing', () => {
+  const baseline = validateBaseline([
+    { test: 'acc_copyin.c', subtest: 'T2', mode: 'runtime', justification: 'Vendor bug', ticket: 'BUG-1' },
+    { test: 'Tests/acc_copyout.c', mode: 'compiler', justification: 'Clause not implemented' },
+    { test: 'acc_create.c', justification: 'Used to crash' },
+  ]);
+
+  const runtime = applyBaseline(results.tests, 'runtime', baseline);
+  expect(runtime.expected.map((r) => r.name)).toEqual(['acc_copyin.c']);
+  expect(runtime.expected[0].entry?.ticket).toBe('BUG-1');
+  expect(runtime.unexpected.map((r) => r.name)).toEqual(['acc_delete.c']);
+  expect(runtime.unexpectedPass.map((r) => r.name)).toEqual(['acc_create.c']);
+
+  const compiler = applyBaseline(results.tests, 'compiler', baseline);
+  expect(compiler.expected.map((r) => r.name)).toEqual(['acc_copyout.c']);
+  expect(compiler.unexpected).toEqual([]);
+  expect(compiler.unexpectedPass.map((r) => r.name)).toEqual(['acc_create.c']);
+});
+
+test('a sub-test entry only waives the failcode bits it names', () => {
+  const baseline = [{ test: 'acc_copyin.c', subtest: 'T1', justification: '' }];
+
+  const report = applyBaseline(results.tests, 'runtime', baseline);
+  expect(report.unexpected.map((r) => r.name)).toContain('acc_copyin.c');
+  expect(report.unexpectedPass.map((r) => [r.name, r.subtest])).toEqual([['acc_copyin.c', 'T1']]);
+});
+
+test('an entry without a mode is only stale once the test passes in both modes', () => {
+  const baseline = [
+    { test: 'acc_delete.c', justification: 'Crashes at runtime' },
+    { test: 'acc_copyin.c', subtest: 'T2', justification: 'Crashes at runtime' },
+  ];
+  const deleteTest = results.tests.find((t) => t.name === 'acc_delete.c')!;
+
+  const compiler = applyBaseline(results.tests, 'compiler', baseline);
+  expect(compiler.unexpectedPass).toEqual([]);
+  expect(applyBaseline(results.tests, 'runtime', baseline).expected.map((r) => r.name)).toEqual(['acc_copyin.c', 'acc_delete.c']);
+  expect(getTestExpectation(deleteTest, baseline)?.status).toBe('expected');
+});
+
+test('exports the current failures as a baseline that waives all of them', () => {
+  const baseline = createBaseline(results.tests);
+
+  expect(baseline.map((e) => [e.test, e.mode])).toEqual([
+    ['acc_copyin.c', 'runtime'],
+    ['acc_copyout.c', 'compiler'],
+    ['acc_delete.c', 'runtime'],
+  ]);
+  expect(applyBaseline(results.tests, 'compiler', baseline).unexpected).toEqual([]);
+  expect(applyBaseline(results.tests, 'runtime', baseline).unexpected).toEqual([]);
+});
+
+test('rejects malformed baseline files with the offending entry number', () => {
+  expect(() => validateBaseline({})).toThrow(/JSON array/);
+  expect(() => validateBaseline([{ test: 'a.c' }, { justification: 'x' }])).toThrow(/Entry 2 has no test name/);
+  expect(() => validateBaseline([{ test: 'a.c', subtest: '2' }])).toThrow(/Entry 1 has an invalid sub-test/);
+  expect(() => validateBaseline([{ test: 'a.c', mode: 'link' }])).toThrow(/Entry 1 has an invalid mode/);
+});
+
+test('keeps the valid entries when an incomplete one was saved', () => {
+  const complete = { test: 'acc_copyin.c', justification: 'known bug' };
+  const drafts = [{ test: '', justification: '' }, { test: 'acc_delete.c', subtest: 'T', justification: '' }];
+  const reload = () => {
+    let entries: BaselineEntry[] = [];
+    jest.isolateModules(() => {
+      entries = require('./baseline').getBaseline();
+    });
+    return entries;
+  };
+
+  // What the baseline editor saves while the other entries are being typed.
+  setBaseline(keepValidEntries([complete, ...drafts]));
+  expect(reload().map((e) => e.test)).toEqual(['acc_copyin.c']);
+
+  // Storage written before drafts were held back still loads the good entry.
+  localStorage.setItem('expectedFailures', JSON.stringify([complete, ...drafts]));
+  expect(reload().map((e) => e.test)).toEqual(['acc_copyin.c']);
+  localStorage.removeItem('expectedFailures');
+});
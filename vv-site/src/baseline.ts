@@ -0,0 +1,207 @@
+import { Mode, TestResult, isRuntimeFailure } from './resultsParser';
+import { SubtestStatus, getSubtestResults } from './testIndex';
+
+// One waived failure. Without `subtest` the entry covers the whole test, and
+// without `mode` it covers both compiler and runtime failures.
+export interface BaselineEntry {
+  test: string;
+  subtest?: string;
+  mode?: Mode;
+  justification: string;
+  ticket?: string;
+}
+
+export type ExpectationStatus = 'expected' | 'unexpected' | 'unexpected-pass';
+
+export const EXPECTATION_LABELS: Record<ExpectationStatus, string> = {
+  expected: 'Expected failure',
+  unexpected: 'Unexpected failure',
+  'unexpected-pass': 'Unexpectedly passing',
+};
+
+export interface ExpectationResult {
+  name: string;
+  subtest: string | null;
+  mode: Mode;
+  status: ExpectationStatus;
+  reason: string;
+  entry: BaselineEntry | null;
+}
+
+export interface BaselineReport {
+  expected: ExpectationResult[];
+  unexpected: ExpectationResult[];
+  unexpectedPass: ExpectationResult[];
+}
+
+const BASELINE_STORAGE_KEY = 'expectedFailures';
+
+// Like the failure rules, a stored entry that no longer validates is dropped
+// on its own instead of taking the whole baseline with it.
+function loadBaseline(): BaselineEntry[] {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(BASELINE_STORAGE_KEY) : null;
+    const value = stored ? JSON.parse(stored) : [];
+    return Array.isArray(value) ? keepValidEntries(value) : [];
+  } catch {
+    return [];
+  }
+}
+
+let expectedFailures: BaselineEntry[] = loadBaseline();
+
+export function getBaseline(): BaselineEntry[] {
+  return expectedFailures;
+}
+
+// Replaces the baseline and persists it in localStorage, like the failure rules.
+export function setBaseline(entries: BaselineEntry[]) {
+  expectedFailures = entries;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(BASELINE_STORAGE_KEY, JSON.stringify(entries));
+}
+
+// Checks the shape of an imported baseline; throws with the offending index so
+// the baseline editor can report it.
+export function validateBaseline(value: any): BaselineEntry[] {
+  if (!Array.isArray(value)) throw new Error('Baseline file must contain a JSON array of entries');
+  return value.map(validateEntry);
+}
+
+// The entries that validate, skipping the rest; the baseline editor saves
+// only these while an entry is still being typed.
+export function keepValidEntries(entries: any[]): BaselineEntry[] {
+  const valid: BaselineEntry[] = [];
+  entries.forEach((entry, i) => {
+    try {
+      valid.push(validateEntry(entry, i));
+    } catch {
+      // Incomplete entries are left out.
+    }
+  });
+  return valid;
+}
+
+function validateEntry(entry: any, i: number): BaselineEntry {
+  if (!entry || typeof entry.test !== 'string' || !entry.test) {
+    throw new Error(`Entry ${i + 1} has no test name`);
+  }
+  if (entry.subtest !== undefined && !/^T\d+$/.test(entry.subtest)) {
+    throw new Error(`Entry ${i + 1} has an invalid sub-test "${entry.subtest}" (expected T1, T2, ...)`);
+  }
+  if (entry.mode !== undefined && !['compiler', 'runtime'].includes(entry.mode)) {
+    throw new Error(`Entry ${i + 1} has an invalid mode "${entry.mode}"`);
+  }
+  return {
+    test: entry.test,
+    subtest: entry.subtest,
+    mode: entry.mode,
+    justification: typeof entry.justification === 'string' ? entry.justification : '',
+    ticket: typeof entry.ticket === 'string' && entry.ticket ? entry.ticket : undefined,
+  };
+}
+
+function baseName(testName: string): string {
+  return testName.split(/[\\/]/).pop() || testName;
+}
+
+// Mirrors summarizeResults: runtime mode only judges tests that compiled.
+function failsIn(test: TestResult, mode: Mode): boolean {
+  return mode === 'compiler' ? test.compiler.result !== 0 : isRuntimeFailure(test.runtime.result);
+}
+
+function failureReason(test: TestResult, mode: Mode): string {
+  return mode === 'compiler' ? test.compiler.reason : test.runtime.reason;
+}
+
+// null when the sub-test is not judged in this mode.
+function subtestFailsIn(status: SubtestStatus, mode: Mode): boolean | null {
+  if (mode === 'compiler') return status === 'compile-fail';
+  if (status === 'compile-fail' || status === 'unknown') return null;
+  return status === 'fail';
+}
+
+// The modes an entry waives failures in.
+function entryModes(entry: BaselineEntry): Mode[] {
+  return entry.mode ? [entry.mode] : ['compiler', 'runtime'];
+}
+
+// Classifies one test against the baseline. A failing test is expected when a
+// whole-test entry covers it, or when every failing sub-test has its own
+// entry. Entries whose test or sub-test now passes in every mode they cover
+// are reported as unexpectedly passing.
+export function classifyAgainstBaseline(
+  test: TestResult,
+  mode: Mode,
+  baseline: BaselineEntry[] = expectedFailures
+): ExpectationResult[] {
+  if (mode === 'runtime' && test.compiler.result !== 0) return [];
+
+  const name = baseName(test.name);
+  const entries = baseline.filter((e) => baseName(e.test) === name && (!e.mode || e.mode === mode));
+  const testEntry = entries.find((e) => !e.subtest) || null;
+  const subtestEntries = entries.filter((e) => e.subtest);
+  const subtests = subtestEntries.length > 0 ? getSubtestResults(test) : [];
+  const results: ExpectationResult[] = [];
+  const add = (status: ExpectationStatus, entry: BaselineEntry | null, subtest: string | null = null, reason = 'Pass') =>
+    results.push({ name: test.name, subtest, mode, status, reason, entry });
+
+  if (failsIn(test, mode)) {
+    const failing = subtests.filter((s) => subtestFailsIn(s.status, mode));
+    const covering = failing.map((s) => subtestEntries.find((e) => e.subtest === s.id));
+    if (testEntry) {
+      add('expected', testEntry, null, failureReason(test, mode));
+    } else if (failing.length > 0 && covering.every(Boolean)) {
+      add('expected', covering[0] || null, null, failureReason(test, mode));
+    } else {
+      add('unexpected', null, null, failureReason(test, mode));
+    }
+  } else if (testEntry && entryModes(testEntry).every((m) => !failsIn(test, m))) {
+    add('unexpected-pass', testEntry);
+  }
+
+  for (const entry of subtestEntries) {
+    const subtest = subtests.find((s) => s.id === entry.subtest);
+    if (subtest && entryModes(entry).every((m) => subtestFailsIn(subtest.status, m) === false)) {
+      add('unexpected-pass', entry, subtest.id);
+    }
+  }
+
+  return results;
+}
+
+// The whole-test verdict for both modes. An unexpected failure outranks a
+// stale entry, which outranks an expected failure.
+export function getTestExpectation(test: TestResult, baseline: BaselineEntry[] = expectedFailures): ExpectationResult | null {
+  const results = (['compiler', 'runtime'] as const)
+    .flatMap((mode) => classifyAgainstBaseline(test, mode, baseline))
+    .filter((r) => r.subtest === null);
+  return results.find((r) => r.status === 'unexpected')
+    || results.find((r) => r.status === 'unexpected-pass')
+    || results.find((r) => r.status === 'expected')
+    || null;
+}
+
+export function applyBaseline(tests: TestResult[], mode: Mode, baseline: BaselineEntry[] = expectedFailures): BaselineReport {
+  const report: BaselineReport = { expected: [], unexpected: [], unexpectedPass: [] };
+  for (const test of tests) {
+    if (!test.language) continue;
+    for (const result of classifyAgainstBaseline(test, mode, baseline)) {
+      if (result.status === 'expected') report.expected.push(result);
+      else if (result.status === 'unexpected') report.unexpected.push(result);
+      else report.unexpectedPass.push(result);
+    }
+  }
+  return report;
+}
+
+// A baseline that waives every current failure, so the next run only reports
+// what changed. Compile failures are waived for the compiler, the rest for the
+// runtime, with the failure reason as the justification.
+export function createBaseline(tests: TestResult[]): BaselineEntry[] {
+  return tests
+    .filter((test) => test.compiler.result !== 0 || isRuntimeFailure(test.runtime.result))
+    .map((test) => {
+      const mode: Mode = test.compiler.result !== 0 ? 'compiler' : 'runtime';
+      return { test: test.name, mode, justification: failureReason(test, mode) };
+    });
+}
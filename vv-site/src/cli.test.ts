@@ -0,0 +1,97 @@
+import { EXIT_CHECK_FAILED, EXIT_ERROR, EXIT_OK, runCli } from './cli';
+
+const pass = { compilation: { result: 0 }, runtime: { result: 0 } };
+const crash = { compilation: { result: 0 }, runtime: { result: 139, errors: 'Segmentation fault' } };
+
+function run(args: string[], files: Record<string, string | object>) {
+  const output: string[] = [];
+  const written: Record<string, string | Uint8Array> = {};
+  const code = runCli(args, {
+    readFile: (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      const file = files[path];
+      return typeof file === 'string' ? file : JSON.stringify(file);
+    },
+    writeFile: (path, content) => {
+      written[path] = content;
+    },
+    print: (line) => output.push(line),
+  });
+  return { code, output: output.join('\n'), written };
+}
+
+const files = {
+  'base.json': { runs: { 'a.c': [pass], 'a.cpp': [pass], 'a.F90': [pass] } },
+  'head.json': { runs: { 'a.c': [pass], 'a.cpp': [crash], 'a.F90': [pass] } },
+  'baseline.json': [{ test: 'a.cpp', mode: 'runtime', justification: 'known crash' }],
+};
+
+test('prints the per-language summary and gates on the pass rate', () => {
+  const ok = run(['summarize', 'head.json'], files);
+  expect(ok.code).toBe(EXIT_OK);
+  expect(ok.output).toMatch(/CPP\s+1\s+1 \(100\.0%\)\s+0\/1 \(0\.0%\)/);
+  expect(ok.output).toMatch(/Pass rate: 66\.7%/);
+
+  expect(run(['summarize', 'head.json', '--min-pass-rate', '90'], files).code).toBe(EXIT_CHECK_FAILED);
+});
+
+test('fails on unexpected failures only when they are not in the baseline', () => {
+  expect(run(['summarize', 'head.json', '--fail-on-unexpected', '--baseline', 'baseline.json'], files).code).toBe(EXIT_OK);
+  const failed = run(['summarize', 'head.json', '--fail-on-unexpected', '--baseline=baseline.json'], {
+    ...files,
+    'baseline.json': [],
+  });
+  expect(failed.code).toBe(EXIT_CHECK_FAILED);
+  expect(failed.output).toMatch(/unexpected: a\.cpp/);
+});
+
+test('compares two runs and gates on regressions and pass-rate drops', () => {
+  const compared = run(['compare', 'base.json', 'head.json', '--max-pass-rate-drop', '50'], files);
+  expect(compared.code).toBe(EXIT_OK);
+  expect(compared.output).toMatch(/Newly Failing: 1\n {2}a\.cpp: Segmentation fault/);
+
+  expect(run(['compare', 'base.json', 'head.json', '--fail-on-regression'], files).code).toBe(EXIT_CHECK_FAILED);
+  expect(run(['compare', 'base.json', 'head.json', '--max-pass-rate-drop', '10'], files).code).toBe(EXIT_CHECK_FAILED);
+});
+
+test('applies the baseline and pass-rate checks to the head run when comparing', () => {
+  const args = ['compare', 'base.json', 'head.json', '--fail-on-unexpected', '--baseline', 'baseline.json'];
+  expect(run(args, files).code).toBe(EXIT_OK);
+  const failed = run(args, { ...files, 'baseline.json': [] });
+  expect(failed.code).toBe(EXIT_CHECK_FAILED);
+  expect(failed.output).toMatch(/unexpected: a\.cpp/);
+  expect(run(['compare', 'base.json', 'head.json', '--min-pass-rate', '99'], files).code).toBe(EXIT_CHECK_FAILED);
+});
+
+test('rejects check options a command would not apply', () => {
+  const details = run(['details', 'head.json', '--min-pass-rate', '99'], files);
+  expect(details.code).toBe(EXIT_ERROR);
+  expect(details.output).toMatch(/details does not support --min-pass-rate/);
+  expect(run(['details', 'head.json', '--fail-on-unexpected', '--baseline', 'baseline.json'], files).code).toBe(EXIT_ERROR);
+  expect(run(['summarize', 'head.json', '--fail-on-regression'], files).code).toBe(EXIT_ERROR);
+  expect(run(['summarize', 'head.json', '--fail-on-unexpected'], files).output).toMatch(/needs --baseline/);
+});
+
+test('writes the requested export formats', () => {
+  const exported = run(['export', 'head.json', '--format', 'csv,markdown,xlsx', '--out-dir', 'reports/'], files);
+  expect(exported.code).toBe(EXIT_OK);
+  expect(Object.keys(exported.written)).toEqual(['reports/vv_results.csv', 'reports/vv_results.md', 'reports/vv_results.xlsx']);
+  expect(exported.written['reports/vv_results.csv']).toMatch(/a\.cpp/);
+  expect(exported.written['reports/vv_results.xlsx']).toBeInstanceOf(Uint8Array);
+});
+
+test('exits with 2 on bad arguments and unreadable files', () => {
+  expect(run([], files).code).toBe(EXIT_ERROR);
+  expect(run(['summarize'], files).code).toBe(EXIT_ERROR);
+  expect(run(['summarize', 'head.json', '--colour'], files).output).toMatch(/Unknown option --colour/);
+  expect(run(['export', 'head.json', '--format', 'pdf'], files).code).toBe(EXIT_ERROR);
+  expect(run(['summarize', 'missing.json'], files).code).toBe(EXIT_ERROR);
+  const unknownSpec = run(['summarize', 'head.json', '--spec', '9.9'], files);
+  expect(unknownSpec.code).toBe(EXIT_ERROR);
+  expect(unknownSpec.output).toMatch(/--spec must be one of 1\.0, .*3\.2/);
+  expect(run(['compare', 'base.json', 'head.json', '--spec=9.9'], files).code).toBe(EXIT_ERROR);
+  expect(run(['summarize', 'head.json', '--spec', '3.2'], files).code).toBe(EXIT_OK);
+  const broken = run(['summarize', 'broken.json'], { 'broken.json': '{\n  "runs": {,\n}' });
+  expect(broken.code).toBe(EXIT_ERROR);
+  expect(broken.output).toMatch(/broken\.json: The file is not valid JSON: .* \(line 2, column 12\)/);
+});
@@ -0,0 +1,390 @@
+import {
+  FORMAT_LABELS, LANGUAGES, Language, NormalizedRun, getTestFailure, parseResultsFile,
+} from './resultsParser';
+import { getCategoryLabel, setClassificationRules, validateRules } from './errorParser';
+import { summarizeForSpec } from './specConformance';
+import { getSpecVersions } from './testIndex';
+import { BaselineEntry, applyBaseline, validateBaseline } from './baseline';
+import { DIFF_CATEGORIES, diffResults } from './comparison';
+import { getCompilerLabel } from './runConfiguration';
+import { toCsv, toHtmlReport, toJUnitXml, toMarkdown } from './reportExport';
+import { buildWorkbookFile } from './excelExport';
+import { buildResultsWorkbook } from './resultsWorkbook';
+
+// The `vv-report` command: the site's summaries and exports for pipelines that
+// have no browser. vv-report.ts runs it under Node; everything it touches
+// outside this module goes through CliIO so it can be tested like the pages.
+export interface CliIO {
+  readFile: (path: string) => string;
+  writeFile: (path: string, content: string | Uint8Array) => void;
+  print: (line: string) => void;
+}
+
+export const EXIT_OK = 0;
+// A --min-pass-rate, --max-pass-rate-drop or --fail-on-* check did not hold.
+export const EXIT_CHECK_FAILED = 1;
+// Bad arguments, or an input file that could not be read or parsed.
+export const EXIT_ERROR = 2;
+
+export const USAGE = `Usage: vv-report <command> [options]
+
+Commands:
+  summarize <file>                Per-language compiler and runtime pass counts
+  details <file>                  One line per test with its results and failure reason
+  compare <base> <head>           Tests that changed between two runs
+  export <file>                   Write reports in the formats given by --format
+
+Options:
+  --spec <version>                Only count tests that cover this OpenACC version
+  --rules <file>                  Failure classification rules exported from the Rules page
+  --baseline <file>               Expected failures exported from the Baseline page
+  --min-pass-rate <percent>       Fail when fewer tests pass, over all languages (not details)
+  --fail-on-unexpected            Fail on failures that are not in --baseline (not details)
+  --fail-on-regression            Fail when a test that passed in <base> fails (compare)
+  --max-pass-rate-drop <points>   Fail when the pass rate falls by more than this (compare)
+  --failures-only                 Only list failing tests (details)
+  --language <C|CPP|F90>          Only list tests in one language (details)
+  --format <list>                 Comma-separated: xlsx, csv, markdown, junit, html (export)
+  --out <file>                    Output file, when exporting one format
+  --out-dir <dir>                 Output directory, default the current one
+  --compare <files>               Comma-separated runs for the workbook's comparison sheets
+
+A test passes when it compiled and ran successfully. Exit codes: 0 success,
+1 a check failed, 2 bad arguments or unreadable input.`;
+
+const FLAGS = ['fail-on-unexpected', 'fail-on-regression', 'failures-only', 'help'];
+const OPTIONS = [
+  'spec', 'rules', 'baseline', 'min-pass-rate', 'max-pass-rate-drop', 'language',
+  'format', 'out', 'out-dir', 'compare',
+];
+
+// The commands each command-specific flag or option applies to. Any other
+// command rejects it, so a CI check is never accepted and then skipped.
+const COMMANDS_FOR: Record<string, string[]> = {
+  baseline: ['summarize', 'compare', 'export'],
+  'min-pass-rate': ['summarize', 'compare', 'export'],
+  'fail-on-unexpected': ['summarize', 'compare', 'export'],
+  'fail-on-regression': ['compare'],
+  'max-pass-rate-drop': ['compare'],
+  'failures-only': ['details'],
+  language: ['details'],
+  format: ['export'],
+  out: ['export'],
+  'out-dir': ['export'],
+  compare: ['export'],
+};
+
+const EXPORT_FORMATS: Record<string, { fileName: string; build: (results: NormalizedRun, title: string, baseline: BaselineEntry[], comparison: { label: string; results: NormalizedRun }[]) => string | Uint8Array }> = {
+  xlsx: { fileName: 'vv_results.xlsx', build: (r, _, baseline, comparison) => buildWorkbookFile(buildResultsWorkbook(r, { baseline, comparison })) },
+  csv: { fileName: 'vv_results.csv', build: (r) => toCsv(r) },
+  markdown: { fileName: 'vv_results.md', build: (r, title) => toMarkdown(r, title) },
+  junit: { fileName: 'vv_results.xml', build: (r) => toJUnitXml(r) },
+  html: { fileName: 'vv_results.html', build: (r, title) => toHtmlReport(r, title) },
+};
+
+interface Arguments {
+  positional: string[];
+  options: Record<string, string>;
+  flags: Set<string>;
+}
+
+interface LanguageCounts {
+  language: Language;
+  total: number;
+  compilerPass: number;
+  runtimeTotal: number;
+  runtimePass: number;
+}
+
+class UsageError extends Error {}
+
+function parseArguments(args: string[]): Arguments {
+  const parsed: Arguments = { positional: [], options: {}, flags: new Set() };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      parsed.positional.push(arg);
+      continue;
+    }
+    const equals = arg.indexOf('=');
+    const name = equals < 0 ? arg.slice(2) : arg.slice(2, equals);
+    const inline = equals < 0 ? undefined : arg.slice(equals + 1);
+    if (FLAGS.includes(name)) {
+      parsed.flags.add(name);
+    } else if (OPTIONS.includes(name)) {
+      const value = inline ?? args[++i];
+      if (value === undefined) throw new UsageError(`--${name} needs a value`);
+      parsed.options[name] = value;
+    } else {
+      throw new UsageError(`Unknown option --${name}`);
+    }
+  }
+  return parsed;
+}
+
+function numberOption(args: Arguments, name: string): number | null {
+  if (args.options[name] === undefined) return null;
+  const value = Number(args.options[name]);
+  if (isNaN(value)) throw new UsageError(`--${name} must be a number, got "${args.options[name]}"`);
+  return value;
+}
+
+// A version the manifest does not name would silently leave no tests to count.
+function specOption(args: Arguments): string | null {
+  const spec = args.options.spec;
+  if (spec === undefined) return null;
+  const versions = getSpecVersions();
+  if (!versions.includes(spec)) throw new UsageError(`--spec must be one of ${versions.join(', ')}, got "${spec}"`);
+  return spec;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? 'n/a' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function percent(pass: number, total: number): string {
+  return formatRate(total === 0 ? null : pass / total);
+}
+
+// Left-aligns each column to its widest cell.
+function formatTable(rows: string[][]): string[] {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+}
+
+// The same counts as the summary page: runtime only judges tests that compiled.
+function countLanguages(results: NormalizedRun, spec: string | null): LanguageCounts[] {
+  const compiler = summarizeForSpec(results, 'compiler', spec);
+  const runtime = summarizeForSpec(results, 'runtime', spec);
+  return LANGUAGES.map((language) => ({
+    language,
+    total: compiler[language].total,
+    compilerPass: compiler[language].pass,
+    runtimeTotal: runtime[language].total - compiler[language].fail,
+    runtimePass: runtime[language].pass,
+  }));
+}
+
+// Tests that compiled and ran, over all tests in every language.
+function passRate(counts: LanguageCounts[]): number | null {
+  const total = counts.reduce((sum, c) => sum + c.total, 0);
+  return total === 0 ? null : counts.reduce((sum, c) => sum + c.runtimePass, 0) / total;
+}
+
+function readResults(io: CliIO, path: string): NormalizedRun {
+  return parseResultsFile(path, io.readFile(path));
+}
+
+function readJson(io: CliIO, path: string, what: string): any {
+  try {
+    return JSON.parse(io.readFile(path));
+  } catch (e) {
+    throw new Error(`${path}: not a valid ${what} file (${(e as Error).message})`);
+  }
+}
+
+function loadBaseline(io: CliIO, args: Arguments): BaselineEntry[] {
+  const path = args.options.baseline;
+  if (!path) return [];
+  const value = readJson(io, path, 'baseline');
+  try {
+    return validateBaseline(value);
+  } catch (e) {
+    throw new Error(`${path}: ${(e as Error).message}`);
+  }
+}
+
+function printCounts(io: CliIO, counts: LanguageCounts[]) {
+  const rows = [['Language', 'Tests', 'Compiler pass', 'Runtime pass']];
+  for (const c of counts) {
+    rows.push([
+      c.language,
+      String(c.total),
+      `${c.compilerPass} (${percent(c.compilerPass, c.total)})`,
+      `${c.runtimePass}/${c.runtimeTotal} (${percent(c.runtimePass, c.runtimeTotal)})`,
+    ]);
+  }
+  formatTable(rows).forEach(io.print);
+}
+
+// Prints the baseline comparison and returns the number of unexpected failures.
+function printBaseline(io: CliIO, results: NormalizedRun, baseline: BaselineEntry[]): number {
+  let unexpected = 0;
+  for (const mode of ['compiler', 'runtime'] as const) {
+    const report = applyBaseline(results.tests, mode, baseline);
+    unexpected += report.unexpected.length;
+    io.print(`Baseline (${mode}): ${report.expected.length} expected, ${report.unexpected.length} unexpected, `
+      + `${report.unexpectedPass.length} now passing`);
+    report.unexpected.forEach((r) => io.print(`  unexpected: ${r.name}${r.subtest ? ` ${r.subtest}` : ''}`));
+  }
+  return unexpected;
+}
+
+// Checks shared by summarize, compare and export; prints each failed check.
+// compare judges the head run.
+function checkRun(io: CliIO, args: Arguments, counts: LanguageCounts[], unexpected: number): boolean {
+  let ok = true;
+  const minPassRate = numberOption(args, 'min-pass-rate');
+  const rate = passRate(counts);
+  if (minPassRate !== null && (rate === null || rate * 100 < minPassRate)) {
+    io.print(`FAIL: pass rate ${formatRate(rate)} is below ${minPassRate}%`);
+    ok = false;
+  }
+  if (args.flags.has('fail-on-unexpected') && unexpected > 0) {
+    io.print(`FAIL: ${unexpected} unexpected failures`);
+    ok = false;
+  }
+  return ok;
+}
+
+function summarize(io: CliIO, args: Arguments, path: string): number {
+  const results = readResults(io, path);
+  const spec = specOption(args);
+  const counts = countLanguages(results, spec);
+  const skipped = results.warnings.filter((w) => w.skipped);
+
+  io.print(`${path}: ${FORMAT_LABELS[results.format]}${getCompilerLabel(results.configuration) ? `, ${getCompilerLabel(results.configuration)}` : ''}`);
+  io.print(`${results.tests.length} tests, ${skipped.length} entries skipped${spec ? `, counting tests that cover ${spec}` : ''}`);
+  skipped.forEach((w) => io.print(`  skipped: ${w.entry}: ${w.reason}`));
+  const unclassified = summarizeForSpec(results, 'compiler', spec).unclassified;
+  if (unclassified.length > 0) io.print(`Not counted by language: ${unclassified.join(', ')}`);
+  io.print('');
+  printCounts(io, counts);
+  io.print(`Pass rate: ${formatRate(passRate(counts))}`);
+
+  const unexpected = args.options.baseline ? printBaseline(io, results, loadBaseline(io, args)) : 0;
+  return checkRun(io, args, counts, unexpected) ? EXIT_OK : EXIT_CHECK_FAILED;
+}
+
+function details(io: CliIO, args: Arguments, path: string): number {
+  const results = readResults(io, path);
+  const language = args.options.language;
+  if (language && !LANGUAGES.includes(language as Language)) {
+    throw new UsageError(`--language must be one of ${LANGUAGES.join(', ')}`);
+  }
+
+  const rows = [['Test', 'Language', 'Compiler', 'Runtime', 'Cause', 'Reason']];
+  for (const test of results.tests) {
+    if (language && test.language !== language) continue;
+    const failure = getTestFailure(test);
+    if (args.flags.has('failures-only') && !failure) continue;
+    rows.push([
+      test.name,
+      test.language ?? 'Other',
+      String(test.compiler.result),
+      String(test.runtime.result),
+      failure ? getCategoryLabel(failure.category) : '',
+      (failure?.reason ?? 'Pass').split('\n')[0],
+    ]);
+  }
+  formatTable(rows).forEach(io.print);
+  return EXIT_OK;
+}
+
+function compare(io: CliIO, args: Arguments, basePath: string, headPath: string): number {
+  const base = readResults(io, basePath);
+  const head = readResults(io, headPath);
+  const diffs = diffResults(base, head);
+  const spec = specOption(args);
+  const baseCounts = countLanguages(base, spec);
+  const headCounts = countLanguages(head, spec);
+
+  const rows = [['Language', basePath, headPath]];
+  LANGUAGES.forEach((language, i) => {
+    rows.push([
+      language,
+      percent(baseCounts[i].runtimePass, baseCounts[i].total),
+      percent(headCounts[i].runtimePass, headCounts[i].total),
+    ]);
+  });
+  const baseRate = passRate(baseCounts);
+  const headRate = passRate(headCounts);
+  rows.push(['All', formatRate(baseRate), formatRate(headRate)]);
+  formatTable(rows).forEach(io.print);
+  io.print('');
+
+  for (const { key, title } of DIFF_CATEGORIES) {
+    const tests = diffs.filter((d) => d.category === key);
+    io.print(`${title}: ${tests.length}`);
+    if (key !== 'unchanged') tests.forEach((d) => io.print(`  ${d.name}${d.head && !d.head.passed ? `: ${d.head.reason.split('\n')[0]}` : ''}`));
+  }
+
+  let ok = true;
+  const regressed = diffs.filter((d) => d.category === 'regressed').length;
+  if (args.flags.has('fail-on-regression') && regressed > 0) {
+    io.print(`FAIL: ${regressed} tests newly failing`);
+    ok = false;
+  }
+  const maxDrop = numberOption(args, 'max-pass-rate-drop');
+  if (maxDrop !== null && baseRate !== null && headRate !== null && (baseRate - headRate) * 100 > maxDrop) {
+    io.print(`FAIL: pass rate dropped by ${((baseRate - headRate) * 100).toFixed(1)} points, more than ${maxDrop}`);
+    ok = false;
+  }
+  const unexpected = args.options.baseline ? printBaseline(io, head, loadBaseline(io, args)) : 0;
+  return checkRun(io, args, headCounts, unexpected) && ok ? EXIT_OK : EXIT_CHECK_FAILED;
+}
+
+function exportReports(io: CliIO, args: Arguments, path: string): number {
+  const formats = (args.options.format ?? '').split(',').map((f) => f.trim()).filter(Boolean);
+  if (formats.length === 0) throw new UsageError(`--format is required: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  const unknown = formats.filter((f) => !EXPORT_FORMATS[f]);
+  if (unknown.length > 0) throw new UsageError(`Unknown format ${unknown.join(', ')}; use ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  if (args.options.out && formats.length > 1) throw new UsageError('--out takes one format; use --out-dir for several');
+
+  const results = readResults(io, path);
+  const baseline = loadBaseline(io, args);
+  const comparisonPaths = (args.options.compare ?? '').split(',').filter(Boolean);
+  const comparison = comparisonPaths.length === 0 ? [] : [path, ...comparisonPaths].map((p) => {
+    const run = p === path ? results : readResults(io, p);
+    return { label: getCompilerLabel(run.configuration) || p, results: run };
+  });
+  const compiler = getCompilerLabel(results.configuration);
+  const title = compiler ? `OpenACC V&V Results – ${compiler}` : 'OpenACC V&V Results';
+  const outDir = (args.options['out-dir'] ?? '.').replace(/\/+$/, '');
+
+  for (const format of formats) {
+    const { fileName, build } = EXPORT_FORMATS[format];
+    const outPath = args.options.out ?? `${outDir}/${fileName}`;
+    io.writeFile(outPath, build(results, title, baseline, comparison));
+    io.print(`Wrote ${outPath}`);
+  }
+
+  const unexpected = args.options.baseline ? printBaseline(io, results, baseline) : 0;
+  return checkRun(io, args, countLanguages(results, specOption(args)), unexpected) ? EXIT_OK : EXIT_CHECK_FAILED;
+}
+
+export function runCli(args: string[], io: CliIO): number {
+  try {
+    const parsed = parseArguments(args);
+    const [command, ...files] = parsed.positional;
+    if (parsed.flags.has('help')) {
+      io.print(USAGE);
+      return EXIT_OK;
+    }
+    if (!command) {
+      io.print(USAGE);
+      return EXIT_ERROR;
+    }
+    const expected = command === 'compare' ? 2 : 1;
+    if (!['summarize', 'details', 'compare', 'export'].includes(command)) throw new UsageError(`Unknown command "${command}"`);
+    if (files.length !== expected) throw new UsageError(`${command} takes ${expected === 2 ? 'two result files' : 'one result file'}`);
+    const given = [...Object.keys(parsed.options), ...Array.from(parsed.flags)];
+    const unsupported = given.filter((name) => COMMANDS_FOR[name] && !COMMANDS_FOR[name].includes(command));
+    if (unsupported.length > 0) {
+      throw new UsageError(`${command} does not support ${unsupported.map((name) => `--${name}`).join(', ')}`);
+    }
+    if (parsed.flags.has('fail-on-unexpected') && !parsed.options.baseline) {
+      throw new UsageError('--fail-on-unexpected needs --baseline');
+    }
+
+    if (parsed.options.rules) setClassificationRules(validateRules(readJson(io, parsed.options.rules, 'rules')));
+    if (command === 'summarize') return summarize(io, parsed, files[0]);
+    if (command === 'details') return details(io, parsed, files[0]);
+    if (command === 'compare') return compare(io, parsed, files[0], files[1]);
+    return exportReports(io, parsed, files[0]);
+  } catch (e) {
+    io.print(`vv-report: ${(e as Error).message}`);
+    if (e instanceof UsageError) io.print('Run vv-report --help for usage.');
+    return EXIT_ERROR;
+  }
+}
@@ -0,0 +1,62 @@
+import { buildComparisonData, diffResults, seriesColor, SERIES_COLORS } from './comparison';
+import { parseResults, summarizeResults } from './resultsParser';
+
+const pass = { compilation: { result: 0 }, runtime: { result: 0 } };
+const fail = { compilation: { result: 1, errors: 'error' } };
+
+test('builds one series per summary for every language', () => {
+  const summaries = [
+    { 'a.c': [pass], 'a.F90': [fail] },
+    { 'a.c': [pass], 'a.F90': [pass] },
+    { 'a.c': [fail], 'a.F90': [pass] },
+  ].map((runs) => summarizeResults(parseResults(JSON.stringify({ runs })), 'compiler'));
+
+  const data = buildComparisonData(summaries);
+
+  expect(data.map((d) => d.language)).toEqual(['C', 'CPP', 'F90']);
+  expect(data[0]).toMatchObject({ pass0: 1, pass1: 1, pass2: 0, label2: '0 / 1' });
+  expect(data[2]).toMatchObject({ pass0: 0, pass1: 1, pass2: 1, label0: '0 / 1' });
+});
+
+test('gives each series a distinct colour until the palette wraps', () => {
+  const colors = SERIES_COLORS.map((_, i) => seriesColor(i));
+
+  expect(new Set(colors).size).toBe(SERIES_COLORS.length);
+  expect(seriesColor(SERIES_COLORS.length)).toBe(seriesColor(0));
+});
+
+test('classifies every test name between two result files', () => {
+  const compileError = (msg: string) => ({ compilation: { result: 1, errors: msg } });
+  const base = parseResults(JSON.stringify({
+    runs: {
+      'regressed.c': [pass],
+      'fixed.c': [fail],
+      'changed.c': [compileError('error: unsupported clause')],
+      'same.c': [compileError('error: unsupported clause')],
+      'moved.c': [compileError('/tmp/build-1a/moved.c(12): error: identifier "x" is undefined')],
+      'removed.c': [pass],
+    },
+  }));
+  const head = parseResults(JSON.stringify({
+    runs: {
+      'regressed.c': [fail],
+      'fixed.c': [pass],
+      'changed.c': [compileError('error: internal compiler error')],
+      'same.c': [compileError('error: unsupported clause')],
+      'moved.c': [compileError('/tmp/build-7f/moved.c(14): error: identifier "y" is undefined')],
+      'added.c': [pass],
+    },
+  }));
+
+  const categories = Object.fromEntries(diffResults(base, head).map((d) => [d.name, d.category]));
+
+  expect(categories).toEqual({
+    'added.c': 'added',
+    'changed.c': 'reason-changed',
+    'fixed.c': 'fixed',
+    'moved.c': 'unchanged',
+    'regressed.c': 'regressed',
+    'removed.c': 'removed',
+    'same.c': 'unchanged',
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  LANGUAGES, Language, NormalizedRun, Summary, TestResult, getLanguage, isRuntimeFailure, sortTestNames,
+} from './resultsParser';
+import { normalizeMessage } from './errorParser';
+
+export interface ComparisonEntry {
+  file: File;
+  label: string;
+}
+
+// One bar colour per loaded file; wraps around past the last one.
+export const SERIES_COLORS = [
+  '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6',
+  '#ec4899', '#14b8a6', '#f97316', '#6366f1', '#84cc16',
+];
+
+export function seriesColor(index: number): string {
+  return SERIES_COLORS[index % SERIES_COLORS.length];
+}
+
+export interface ComparisonDatum {
+  language: Language;
+  // `pass${i}` holds the passing count and `label${i}` the "pass / total" text for file i.
+  [key: string]: string | number;
+}
+
+export function buildComparisonData(summaries: Summary[]): ComparisonDatum[] {
+  return LANGUAGES.map((lang) => {
+    const datum: ComparisonDatum = { language: lang };
+    summaries.forEach((summary, i) => {
+      datum[`pass${i}`] = summary[lang].pass;
+      datum[`label${i}`] = `${summary[lang].pass} / ${summary[lang].total}`;
+    });
+    return datum;
+  });
+}
+
+export type DiffCategory = 'regressed' | 'fixed' | 'reason-changed' | 'added' | 'removed' | 'unchanged';
+
+export const DIFF_CATEGORIES: { key: DiffCategory; title: string }[] = [
+  { key: 'regressed', title: 'Newly Failing' },
+  { key: 'fixed', title: 'Newly Passing' },
+  { key: 'reason-changed', title: 'Still Failing, Reason Changed' },
+  { key: 'added', title: 'Added' },
+  { key: 'removed', title: 'Removed' },
+  { key: 'unchanged', title: 'Unchanged' },
+];
+
+export interface TestOutcome {
+  passed: boolean;
+  reason: string;
+}
+
+export interface TestDiff {
+  name: string;
+  language: Language | null;
+  category: DiffCategory;
+  base: TestOutcome | null;
+  head: TestOutcome | null;
+}
+
+// Collapses a test's compiler and runtime status into one outcome, reporting
+// the compiler reason when compilation failed.
+export function getTestOutcome(test: TestResult): TestOutcome {
+  if (test.compiler.result !== 0) return { passed: false, reason: test.compiler.reason };
+  if (isRuntimeFailure(test.runtime.result)) return { passed: false, reason: test.runtime.reason };
+  return { passed: true, reason: 'Pass' };
+}
+
+// Reasons are compared as failure signatures, so a rebuilt temp dir or a
+// shifted line number does not count as a new reason.
+function classify(base: TestOutcome | null, head: TestOutcome | null): DiffCategory {
+  if (!base) return 'added';
+  if (!head) return 'removed';
+  if (base.passed && !head.passed) return 'regressed';
+  if (!base.passed && head.passed) return 'fixed';
+  if (!base.passed && normalizeMessage(base.reason) !== normalizeMessage(head.reason)) return 'reason-changed';
+  return 'unchanged';
+}
+
+// Classifies every test name found in either run, in sortTestNames order.
+export function diffResults(base: NormalizedRun, head: NormalizedRun): TestDiff[] {
+  const baseByName = new Map(base.tests.map((t) => [t.name, t]));
+  const headByName = new Map(head.tests.map((t) => [t.name, t]));
+  const names = sortTestNames(Array.from(new Set(base.tests.concat(head.tests).map((t) => t.name))));
+
+  return names.map((name) => {
+    const baseTest = baseByName.get(name);
+    const headTest = headByName.get(name);
+    const baseOutcome = baseTest ? getTestOutcome(baseTest) : null;
+    const headOutcome = headTest ? getTestOutcome(headTest) : null;
+    return {
+      name,
+      language: getLanguage(name),
+      category: classify(baseOutcome, headOutcome),
+      base: baseOutcome,
+      head: headOutcome,
+    };
+  });
+}
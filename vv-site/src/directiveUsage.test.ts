@@ -0,0 +1,37 @@
+import { buildUsageIndex, buildUsagePassRates } from './directiveUsage';
+import { parseResults } from './resultsParser';
+
+test('indexes the directives, clauses and API calls of each sub-test', () => {
+  const clauses = buildUsageIndex('clauses');
+  const copyout = clauses.find((e) => e.name === 'copyout')!;
+  expect(copyout.sites).toContainEqual({ fileName: 'acc_copyin.c', subtestId: 'T2' });
+
+  const calls = buildUsageIndex('apiCalls').find((e) => e.name === 'acc_pcopyin')!;
+  expect(calls.sites).toContainEqual({ fileName: 'acc_copyin.c', subtestId: 'T4' });
+
+  // File-level declare directives count for every sub-test of the file.
+  const declare = buildUsageIndex('directives').find((e) => e.name === 'declare')!;
+  expect(declare.sites).toContainEqual({ fileName: 'declare_copyin.c', subtestId: 'T1' });
+});
+
+test('flags clauses whose pass rate falls below the overall rate', () => {
+  // Return code 18 fails T2 and T5, which both use copyout and present.
+  const results = parseResults(JSON.stringify({
+    runs: { 'acc_copyin.c': [{ compilation: { result: 0 }, runtime: { result: 18 } }] },
+  }));
+
+  const rows = buildUsagePassRates(results, 'clauses');
+  const copyout = rows.find((r) => r.feature === 'copyout')!;
+  const present = rows.find((r) => r.feature === 'present')!;
+
+  expect(copyout.overall.fail).toBe(2);
+  expect(copyout.delta).toBeCloseTo(3 / 5 - 5 / 7);
+  expect(copyout.suspect).toBe(true);
+  expect(copyout.failing).toEqual([
+    { fileName: 'acc_copyin.c', subtestId: 'T2' },
+    { fileName: 'acc_copyin.c', subtestId: 'T5' },
+  ]);
+  expect(present.delta).toBeCloseTo(0);
+  expect(present.suspect).toBe(false);
+  expect(rows.indexOf(copyout)).toBeLessThan(rows.indexOf(present));
+});
@@ -0,0 +1,97 @@
+import { NormalizedRun } from './resultsParser';
+import { FeatureCoverageRow, buildFeatureCoverage, passRate } from './featureCoverage';
+import { getSubtestResults, getTestInfo, testManifest } from './testIndex';
+
+export type UsageKind = 'directives' | 'clauses' | 'apiCalls';
+
+export const USAGE_KIND_LABELS: Record<UsageKind, string> = {
+  directives: 'Directives',
+  clauses: 'Clauses',
+  apiCalls: 'Runtime API calls',
+};
+
+export interface UsageSite {
+  fileName: string;
+  subtestId: string;
+}
+
+export interface UsageEntry {
+  name: string;
+  sites: UsageSite[];
+}
+
+export interface UsagePassRate extends FeatureCoverageRow {
+  // Pass rate of the sub-tests using it minus that of every decided sub-test
+  // in the results, so a clause a compiler mishandles stands out as negative.
+  delta: number | null;
+  suspect: boolean;
+  failing: UsageSite[];
+  sites: UsageSite[];
+}
+
+// A clause needs this many failing sub-tests and at least this drop below the
+// overall pass rate before it is flagged.
+const SUSPECT_MIN_FAILURES = 2;
+const SUSPECT_MIN_DROP = 0.1;
+
+// Every test file and sub-test using each directive, clause or API routine,
+// straight from the manifest.
+export function buildUsageIndex(kind: UsageKind): UsageEntry[] {
+  const index = new Map<string, UsageSite[]>();
+  for (const [fileName, info] of Object.entries(testManifest)) {
+    for (const subtest of info.subtests) {
+      for (const name of subtest[kind]) {
+        const sites = index.get(name) || [];
+        sites.push({ fileName, subtestId: subtest.id });
+        index.set(name, sites);
+      }
+    }
+  }
+  return Array.from(index.keys()).sort().map((name) => ({ name, sites: index.get(name)! }));
+}
+
+// Pass rate per directive, clause or API routine, lowest first. Each sub-test
+// counts once towards every name it uses, as tags do on the coverage page.
+export function buildUsagePassRates(results: NormalizedRun, kind: UsageKind): UsagePassRate[] {
+  let pass = 0;
+  let fail = 0;
+  const failing = new Map<string, UsageSite[]>();
+  for (const test of results.tests) {
+    if (!getTestInfo(test.name)) continue;
+    const fileName = test.name.split(/[\\/]/).pop() || test.name;
+    for (const subtest of getSubtestResults(test)) {
+      if (subtest.status === 'unknown') continue;
+      if (subtest.status === 'pass') {
+        pass++;
+        continue;
+      }
+      fail++;
+      for (const name of subtest[kind]) {
+        const sites = failing.get(name) || [];
+        sites.push({ fileName, subtestId: subtest.id });
+        failing.set(name, sites);
+      }
+    }
+  }
+  const overallRate = pass + fail === 0 ? null : pass / (pass + fail);
+
+  const sites = new Map(buildUsageIndex(kind).map((entry) => [entry.name, entry.sites]));
+  const rows = buildFeatureCoverage(results, (subtest) => subtest[kind]).map((row) => {
+    const rate = passRate(row.overall);
+    const delta = rate === null || overallRate === null ? null : rate - overallRate;
+    return {
+      ...row,
+      delta,
+      suspect: delta !== null && row.overall.fail >= SUSPECT_MIN_FAILURES && delta <= -SUSPECT_MIN_DROP,
+      failing: failing.get(row.feature) || [],
+      sites: sites.get(row.feature) || [],
+    };
+  });
+
+  return rows.sort((a, b) => {
+    const rateA = passRate(a.overall);
+    const rateB = passRate(b.overall);
+    if (rateA === null || rateB === null) return rateA === rateB ? 0 : rateA === null ? 1 : -1;
+    return rateA - rateB || a.feature.localeCompare(b.feature);
+  });
+}
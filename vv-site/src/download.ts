@@ -0,0 +1,16 @@
+// Saves generated content as a file through a temporary link.
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Saves generated text (JSON, CSV, ...) as a UTF-8 file.
+export function downloadText(content: string, fileName: string, mimeType = 'text/plain') {
+  downloadFile(content, fileName, `${mimeType};charset=utf-8`);
+}
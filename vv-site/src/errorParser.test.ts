@@ -0,0 +1,109 @@
+import {
+  ClassificationRule, categorizeFailure, classifyFailure, clusterFailures, getResultReason, keepValidRules,
+  normalizeMessage, setClassificationRules, validateRules,
+} from './errorParser';
+
+test('picks the first error-looking line as the reason', () => {
+  const run = { compilation: { errors: 'note: building\nacc_copyin.c(12): error: invalid text in pragma\n' } };
+
+  expect(getResultReason(run, 'compiler')).toBe('acc_copyin.c(12): error: invalid text in pragma');
+});
+
+test('maps messages onto the failure taxonomy', () => {
+  expect(categorizeFailure('compiler', 'NVC++-S-0155-Clause not supported: self (acc_self.c: 12)')).toBe('unsupported-clause');
+  expect(categorizeFailure('compiler', 'internal compiler error: in gimplify_expr, at gimplify.c:1234')).toBe('internal-compiler-error');
+  expect(categorizeFailure('compiler', "undefined reference to `acc_memcpy_d2d'")).toBe('runtime-api-missing');
+  expect(categorizeFailure('compiler', "undefined reference to `omp_get_num_threads'")).toBe('link-error');
+  expect(categorizeFailure('runtime', 'Segmentation fault (core dumped)', 139)).toBe('segfault');
+  expect(categorizeFailure('runtime', '', 124)).toBe('timeout');
+  expect(categorizeFailure('runtime', 'Test failed', 3)).toBe('wrong-result');
+  expect(categorizeFailure('compiler', 'something odd', 1)).toBe('other');
+});
+
+test('does not take NVHPC "aborted" messages for crashes', () => {
+  const nvc = [
+    'NVC++-S-1065-Unsupported nested compute construct in compute construct or acc routine (acc_shutdown.c: 14)',
+    'NVC++-F-0704-Compilation aborted due to previous errors. (acc_shutdown.c)',
+    'NVC++/x86-64 Linux 23.11-0: compilation aborted',
+  ].join('\n');
+  const nvfortran = [
+    'NVFORTRAN-S-0034-Syntax error at or near identifier attach (acc_attach.F90: 23)',
+    '  0 inform,   0 warnings,   1 severes, 0 fatal for test1',
+    'NVFORTRAN-F-0000-Compilation aborted due to previous errors. (acc_attach.F90)',
+    'NVFORTRAN/x86-64 Linux 23.11-0: compilation aborted',
+  ].join('\n');
+  const present = [
+    'FATAL ERROR: data in PRESENT clause was not found on device 1: name=a host:0x1e5d8a0',
+    ' file:/home/ci/Tests/acc_copyin.c test1 line:20',
+    'Program aborted',
+  ].join('\n');
+
+  expect(categorizeFailure('compiler', nvc, 2)).toBe('unsupported-clause');
+  expect(categorizeFailure('compiler', nvfortran, 2)).toBe('other');
+  expect(categorizeFailure('runtime', present, 1)).not.toBe('segfault');
+  expect(categorizeFailure('runtime', 'Aborted (core dumped)', 134)).toBe('segfault');
+});
+
+test('normalises away paths, line numbers and identifiers', () => {
+  const a = normalizeMessage("/home/ci/build/acc_copyin.c:12:5: error: 'a' undeclared");
+  const b = normalizeMessage("/tmp/other/parallel_loop.c:88:1: error: 'buffer' undeclared");
+
+  expect(a).toBe("<path>: error: '<id>' undeclared");
+  expect(b).toBe(a);
+  expect(normalizeMessage('"kernels_if.F90", line 42: invalid clause')).toBe("'<id>', line <n>: invalid clause");
+});
+
+test('clusters failures by category and signature, largest first', () => {
+  const causes = clusterFailures([
+    { name: 'a.c', reason: "a.c:1: error: clause 'self' not supported", category: 'unsupported-clause' },
+    { name: 'b.c', reason: "b.c:9: error: clause 'if' not supported", category: 'unsupported-clause' },
+    { name: 'c.c', reason: 'Segmentation fault', category: 'segfault' },
+  ]);
+
+  expect(causes.map((c) => [c.category, c.count])).toEqual([['unsupported-clause', 2], ['segfault', 1]]);
+  expect(causes[0].signatures).toHaveLength(1);
+  expect(causes[0].signatures[0].tests.map((t) => t.name)).toEqual(['a.c', 'b.c']);
+});
+
+test('applies user rules ahead of the built-in heuristics', () => {
+  const rules = validateRules([
+    { pattern: 'NVC++-S-0155', category: 'nvc unsupported', note: 'Tracked upstream', target: 'compiler', stream: 'stderr' },
+    { pattern: 'mismatch at index \\d+', matchType: 'regex', category: 'wrong-result', target: 'runtime' },
+  ]);
+  const output = { stderr: 'NVC++-S-0155-Clause not supported', stdout: '' };
+
+  expect(classifyFailure('compiler', 'a.c', 'x', output, 2, rules)).toMatchObject({
+    category: 'nvc unsupported',
+    knownIssue: 'Tracked upstream',
+  });
+  expect(classifyFailure('runtime', 'a.c', 'x', output, 1, rules).category).toBe('unsupported-clause');
+  expect(classifyFailure('runtime', 'a.c', 'x', { stderr: '', stdout: 'mismatch at index 7' }, 139, rules).category)
+    .toBe('wrong-result');
+});
+
+test('rejects malformed rule files with the offending rule number', () => {
+  expect(() => validateRules({})).toThrow(/JSON array/);
+  expect(() => validateRules([{ pattern: 'x', category: 'y' }, { pattern: '' }])).toThrow(/Rule 2 has no pattern/);
+  expect(() => validateRules([{ pattern: '(', matchType: 'regex', category: 'y' }])).toThrow(/Rule 1 has an invalid regex/);
+});
+
+test('keeps the valid rules when an incomplete one was saved', () => {
+  const complete = { id: 'a', pattern: 'not supported', category: 'unsupported-feature' };
+  const draft = { id: 'b', pattern: 'T', category: '' };
+  const reload = () => {
+    let rules: ClassificationRule[] = [];
+    jest.isolateModules(() => {
+      rules = require('./errorParser').getClassificationRules();
+    });
+    return rules;
+  };
+
+  // What the rules editor saves while the second rule is still being typed.
+  setClassificationRules(keepValidRules([complete, draft]));
+  expect(reload().map((r) => r.id)).toEqual(['a']);
+
+  // Storage written before drafts were held back still loads the good rule.
+  localStorage.setItem('failureRules', JSON.stringify([complete, draft]));
+  expect(reload().map((r) => r.id)).toEqual(['a']);
+  localStorage.removeItem('failureRules');
+});
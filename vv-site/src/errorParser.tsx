@@ -56,8 +56,11 @@ export function getRuntimeStatus(run: any): {
   const section = run.runtime || run.execution || run || {};
   let result = section.result;
 
-  // Fallback to return_code or success
-  if (typeof result !== 'number') {
+  // A skipped run (JUnit <skipped>, TAP # SKIP) has no verdict, which is not
+  // a failure. Otherwise fall back to return_code or success.
+  if (section.skipped === true) {
+    result = 'Unknown';
+  } else if (typeof result !== 'number') {
     result = typeof section.return_code === 'number'
       ? section.return_code
       : section.success === true ? 0 : 1;
@@ -69,7 +72,7 @@ export function getRuntimeStatus(run: any): {
   const output = section.output || '';
 
   const reason = !isNumber
-    ? 'No execution result'
+    ? (section.skipped && stderr.trim() ? stderr.trim().split('\n')[0] : 'No execution result')
     : result !== 0 || stderr.trim() || output.trim()
     ? getResultReason(run, 'runtime')
     : 'Pass';
@@ -81,3 +84,244 @@ export function getRuntimeStatus(run: any): {
     output
   };
 }
+
+export type FailureCategory =
+  | 'unsupported-clause'
+  | 'internal-compiler-error'
+  | 'link-error'
+  | 'runtime-api-missing'
+  | 'segfault'
+  | 'timeout'
+  | 'wrong-result'
+  | 'other';
+
+export const FAILURE_CATEGORY_LABELS: Record<FailureCategory, string> = {
+  'unsupported-clause': 'Unsupported directive or clause',
+  'internal-compiler-error': 'Internal compiler error',
+  'link-error': 'Link error',
+  'runtime-api-missing': 'Runtime API routine missing',
+  segfault: 'Segmentation fault / crash',
+  timeout: 'Timeout',
+  'wrong-result': 'Wrong result',
+  other: 'Other',
+};
+
+export function getCategoryLabel(category: string): string {
+  return FAILURE_CATEGORY_LABELS[category as FailureCategory] ?? category;
+}
+
+// Checked in order, so the more specific causes come first (a missing acc_*
+// routine is usually reported as an undefined reference by the linker). A bare
+// "aborted" is no crash sign: NVHPC ends every failed compile with
+// "compilation aborted" and its runtime stops with "Program aborted".
+const CATEGORY_PATTERNS: [FailureCategory, RegExp][] = [
+  ['internal-compiler-error', /internal compiler error|internal error|\bICE\b|compiler bug|please submit a (full )?bug report|llvm error/i],
+  ['runtime-api-missing', /(undefined reference to|undefined symbol:?|unresolved external symbol|implicit declaration of function|has no implicit type|not declared in this scope|no specific (subroutine|function) for the generic)\s*['"`‘]?acc_|['"`‘]acc_\w+['"`’]? (was not declared|is undefined|has no implicit type)/i],
+  ['link-error', /undefined reference|ld returned|unresolved external|cannot find -l|undefined symbol|ld: /i],
+  ['unsupported-clause', /not (yet )?supported|unsupported|not (yet )?implemented|unimplemented|unrecognized|unknown (clause|directive)|invalid text in pragma|invalid (clause|directive)|illegal (clause|directive)|ignoring (#pragma|pragma)/i],
+  ['segfault', /segmentation fault|sigsegv|core dumped|signal 11|illegal (memory )?address|bus error|sigabrt/i],
+  ['timeout', /timed? ?out|timeout|time limit|deadline exceeded/i],
+];
+
+// Maps a failure onto the taxonomy. `result` is the compiler or runtime
+// return code; 124 is what `timeout` exits with and 128+n is signal n.
+export function categorizeFailure(type: 'compiler' | 'runtime', text: string, result?: number | string): FailureCategory {
+  for (const [category, pattern] of CATEGORY_PATTERNS) {
+    if (pattern.test(text)) return category;
+  }
+
+  if (type === 'runtime') {
+    if (result === 124 || result === 137) return 'timeout';
+    if (result === 139 || result === 134 || result === 135) return 'segfault';
+    if (typeof result === 'number' && result !== 0) return 'wrong-result';
+  }
+  return 'other';
+}
+
+// Reduces a failure message to a signature shared by tests failing the same
+// way: paths, file names, line/column numbers, quoted identifiers, addresses
+// and numbers are replaced with placeholders.
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/(?:[A-Za-z]:)?(?:[\w.~-]*[\\/])+[\w.-]+/g, '<path>')
+    .replace(/\b[\w-]+\.(?:c|cpp|cc|cxx|h|hpp|f90|f|fh|o|so|a|mod)\b/gi, '<file>')
+    .replace(/(<path>|<file>)(?:[:(]\s*\d+(?:[:,]\s*\d+)?\)?)+/g, '$1')
+    .replace(/\bline\s+\d+/gi, 'line <n>')
+    .replace(/['"`‘][^'"`‘’\n]*['"`’]/g, "'<id>'")
+    .replace(/0x[0-9a-f]+/gi, '<addr>')
+    .replace(/\b\d+(\.\d+)?\b/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export interface CategorizedFailure {
+  name: string;
+  reason: string;
+  // A built-in FailureCategory, or the label of the user rule that matched.
+  category: string;
+  knownIssue?: string;
+}
+
+export interface FailureSignature {
+  signature: string;
+  tests: CategorizedFailure[];
+}
+
+export interface FailureCause {
+  category: string;
+  label: string;
+  count: number;
+  signatures: FailureSignature[];
+}
+
+// Groups failures by category, then by normalised reason, largest first.
+export function clusterFailures(failures: CategorizedFailure[]): FailureCause[] {
+  const causes = new Map<string, Map<string, CategorizedFailure[]>>();
+
+  for (const failure of failures) {
+    let signatures = causes.get(failure.category);
+    if (!signatures) {
+      signatures = new Map();
+      causes.set(failure.category, signatures);
+    }
+    const signature = normalizeMessage(failure.reason) || 'Unknown';
+    signatures.set(signature, [...(signatures.get(signature) || []), failure]);
+  }
+
+  return Array.from(causes.entries())
+    .map(([category, signatures]) => ({
+      category,
+      label: getCategoryLabel(category),
+      count: Array.from(signatures.values()).reduce((n, tests) => n + tests.length, 0),
+      signatures: Array.from(signatures.entries())
+        .map(([signature, tests]) => ({ signature, tests }))
+        .sort((a, b) => b.tests.length - a.tests.length),
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+export interface ClassificationRule {
+  id: string;
+  pattern: string;
+  matchType: 'regex' | 'substring';
+  target: 'compiler' | 'runtime' | 'any';
+  stream: 'stderr' | 'stdout' | 'any';
+  category: string;
+  note?: string;
+}
+
+const RULES_STORAGE_KEY = 'failureRules';
+
+// A stored rule that no longer validates is dropped on its own, so one bad
+// entry cannot cost the rest of the list.
+function loadRules(): ClassificationRule[] {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(RULES_STORAGE_KEY) : null;
+    const value = stored ? JSON.parse(stored) : [];
+    return Array.isArray(value) ? keepValidRules(value) : [];
+  } catch {
+    return [];
+  }
+}
+
+let classificationRules: ClassificationRule[] = loadRules();
+
+export function getClassificationRules(): ClassificationRule[] {
+  return classificationRules;
+}
+
+// Replaces the user rules and persists them, like darkMode, in localStorage.
+// The parsing worker has no localStorage and only takes the rules over.
+export function setClassificationRules(rules: ClassificationRule[]) {
+  classificationRules = rules;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+}
+
+// Checks the shape of imported rules; throws with the offending index so the
+// rules editor can report it.
+export function validateRules(value: any): ClassificationRule[] {
+  if (!Array.isArray(value)) throw new Error('Rules file must contain a JSON array of rules');
+  return value.map(validateRule);
+}
+
+// The rules that validate, skipping the rest; the rules editor saves only
+// these while a new rule is still being typed.
+export function keepValidRules(rules: any[]): ClassificationRule[] {
+  const valid: ClassificationRule[] = [];
+  rules.forEach((rule, i) => {
+    try {
+      valid.push(validateRule(rule, i));
+    } catch {
+      // Incomplete or broken rules are left out.
+    }
+  });
+  return valid;
+}
+
+function validateRule(rule: any, i: number): ClassificationRule {
+  if (!rule || typeof rule.pattern !== 'string' || !rule.pattern) {
+    throw new Error(`Rule ${i + 1} has no pattern`);
+  }
+  if (typeof rule.category !== 'string' || !rule.category) {
+    throw new Error(`Rule ${i + 1} has no category`);
+  }
+  const matchType = rule.matchType === 'regex' ? 'regex' : 'substring';
+  if (matchType === 'regex') {
+    try {
+      new RegExp(rule.pattern);
+    } catch (e) {
+      throw new Error(`Rule ${i + 1} has an invalid regex: ${(e as Error).message}`);
+    }
+  }
+  return {
+    id: typeof rule.id === 'string' && rule.id ? rule.id : `rule-${Date.now()}-${i}`,
+    pattern: rule.pattern,
+    matchType,
+    target: ['compiler', 'runtime'].includes(rule.target) ? rule.target : 'any',
+    stream: ['stderr', 'stdout'].includes(rule.stream) ? rule.stream : 'any',
+    category: rule.category,
+    note: typeof rule.note === 'string' && rule.note ? rule.note : undefined,
+  };
+}
+
+export function ruleMatches(rule: ClassificationRule, text: string): boolean {
+  if (rule.matchType === 'substring') return text.toLowerCase().includes(rule.pattern.toLowerCase());
+  try {
+    return new RegExp(rule.pattern, 'i').test(text);
+  } catch {
+    return false;
+  }
+}
+
+export interface FailureOutput {
+  stderr: string;
+  stdout: string;
+}
+
+// Categorises one failure: the first matching user rule wins, then the
+// built-in heuristics of categorizeFailure.
+export function classifyFailure(
+  type: 'compiler' | 'runtime',
+  name: string,
+  reason: string,
+  output: FailureOutput,
+  result?: number | string,
+  rules: ClassificationRule[] = classificationRules
+): CategorizedFailure {
+  for (const rule of rules) {
+    if (!rule.pattern || !rule.category) continue;
+    if (rule.target !== 'any' && rule.target !== type) continue;
+    const text = rule.stream === 'any'
+      ? `${output.stderr}\n${output.stdout}`
+      : output[rule.stream];
+    if (ruleMatches(rule, text)) {
+      return { name, reason, category: rule.category, knownIssue: rule.note };
+    }
+  }
+
+  return {
+    name,
+    reason,
+    category: categorizeFailure(type, `${reason}\n${output.stderr}\n${output.stdout}`, result),
+  };
+}
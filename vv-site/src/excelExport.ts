@@ -0,0 +1,299 @@
+import * as XLSX from 'xlsx-js-style';
+import { downloadFile } from './download';
+
+export type CellValue = string | number;
+
+// A clustered column chart drawn from the sheet's own cells: one category per
+// body row and one series per listed column, placed right of the table.
+export interface ChartSpec {
+  title: string;
+  categoryColumn: number;
+  seriesColumns: number[];
+  // Series holding rates between 0 and 1 get a 0–100% axis.
+  percent?: boolean;
+}
+
+export interface WorkbookSheet {
+  name: string;
+  sheet: XLSX.WorkSheet;
+  chart?: ChartSpec;
+}
+
+interface SheetFormatting {
+  statusColumns: number[];
+  rateColumns: number[];
+  rowCount: number;
+}
+
+// SheetJS CE writes neither panes nor conditional formats, so buildStyledSheet
+// records them here and writeWorkbook adds them to the written package.
+const sheetFormatting = new WeakMap<XLSX.WorkSheet, SheetFormatting>();
+
+// Builds a sheet with the indigo header row, wrapped body cells, a frozen
+// header and an autofilter. Cells in `statusColumns` are coloured by
+// conditional formatting: green for pass/0, blue for unknown, red for
+// anything else. `rateColumns` hold fractions shown as percentages on a
+// red-to-green colour scale.
+export function buildStyledSheet(
+  header: string[],
+  body: CellValue[][],
+  colWidths: number[],
+  statusColumns: number[] = [],
+  rateColumns: number[] = []
+): XLSX.WorkSheet {
+  const worksheetData = [header, ...body];
+  const ws = XLSX.utils.aoa_to_sheet(worksheetData);
+
+  // Set column widths
+  ws['!cols'] = colWidths.map(w => ({ wch: w }));
+
+  // Set row heights (starting from row 1, header is 0)
+  ws['!rows'] = worksheetData.map((_, i) => ({ hpt: i === 0 ? 24 : 28 }));
+
+  ws['!autofilter'] = {
+    ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: body.length, c: header.length - 1 } }),
+  };
+  sheetFormatting.set(ws, { statusColumns, rateColumns, rowCount: body.length });
+
+  // Style headers
+  header.forEach((_, colIndex) => {
+    const cellRef = XLSX.utils.encode_cell({ r: 0, c: colIndex });
+    ws[cellRef].s = {
+      font: { bold: true, color: { rgb: "FFFFFF" }, sz: 12 },
+      fill: { fgColor: { rgb: "4F46E5" } },
+      alignment: { horizontal: "center", vertical: "center", wrapText: true },
+      border: {
+        top: { style: "thin", color: { rgb: "CCCCCC" } },
+        bottom: { style: "thin", color: { rgb: "CCCCCC" } }
+      }
+    };
+  });
+
+  // Style data rows
+  for (let r = 1; r < worksheetData.length; r++) {
+    const row = worksheetData[r];
+    for (let c = 0; c < row.length; c++) {
+      const cellRef = XLSX.utils.encode_cell({ r, c });
+      const cell = ws[cellRef];
+      if (!cell) continue;
+
+      cell.s = {
+        font: { name: "Calibri", sz: 11 },
+        alignment: { vertical: "top", wrapText: true },
+      };
+      if (rateColumns.includes(c) && typeof row[c] === 'number') cell.z = '0.0%';
+    }
+  }
+
+  return ws;
+}
+
+// Differential formats referenced by the conditional formatting rules, in
+// dxfId order.
+const STATUS_DXFS = ['22C55E', '3B82F6', 'EF4444']
+  .map((rgb) => `<dxf><font><b/><color rgb="FF${rgb}"/></font></dxf>`);
+const [PASS_DXF, UNKNOWN_DXF, FAIL_DXF] = [0, 1, 2];
+
+// Everything this module writes into the package is ASCII, with anything else
+// (sheet names, chart titles) escaped as character references. The parts are
+// therefore edited as byte strings, which leaves their UTF-8 text untouched.
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[^\x20-\x7e]/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function bytesToString(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return text;
+}
+
+function stringToBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+// Inserts `fragment` before the first of `successors` found in the worksheet
+// XML, keeping the element order the schema requires.
+function insertBefore(xml: string, fragment: string, successors: string[]): string {
+  const positions = successors.map((tag) => xml.indexOf(`<${tag}`)).filter((i) => i >= 0);
+  const at = positions.length > 0 ? Math.min(...positions) : xml.lastIndexOf('</worksheet>');
+  return xml.slice(0, at) + fragment + xml.slice(at);
+}
+
+function conditionalFormatting(formatting: SheetFormatting): string {
+  if (formatting.rowCount === 0) return '';
+  let priority = 0;
+  const rule = (dxfId: number, formula: string) =>
+    `<cfRule type="expression" dxfId="${dxfId}" priority="${++priority}" stopIfTrue="1"><formula>${escapeXml(formula)}</formula></cfRule>`;
+  const range = (c: number) => {
+    const column = XLSX.utils.encode_col(c);
+    return { first: `${column}2`, sqref: `${column}2:${column}${formatting.rowCount + 1}` };
+  };
+
+  const blocks = formatting.statusColumns.map((c) => {
+    const { first, sqref } = range(c);
+    return `<conditionalFormatting sqref="${sqref}">`
+      + rule(PASS_DXF, `OR(AND(ISNUMBER(${first}),${first}=0),LOWER(${first})="pass")`)
+      + rule(UNKNOWN_DXF, `LOWER(${first})="unknown"`)
+      + rule(FAIL_DXF, `AND(LEN(${first})>0,LOWER(${first})<>"n/a")`)
+      + '</conditionalFormatting>';
+  });
+  for (const c of formatting.rateColumns) {
+    blocks.push(
+      `<conditionalFormatting sqref="${range(c).sqref}"><cfRule type="colorScale" priority="${++priority}"><colorScale>`
+      + '<cfvo type="num" val="0"/><cfvo type="num" val="0.5"/><cfvo type="num" val="1"/>'
+      + '<color rgb="FFF8696B"/><color rgb="FFFFEB84"/><color rgb="FF63BE7B"/>'
+      + '</colorScale></cfRule></conditionalFormatting>'
+    );
+  }
+  return blocks.join('');
+}
+
+function chartXml(sheetName: string, spec: ChartSpec, rowCount: number): string {
+  const ref = (c: number, fromRow: number, toRow = fromRow) => {
+    const column = XLSX.utils.encode_col(c);
+    const cells = fromRow === toRow ? `$${column}$${fromRow}` : `$${column}$${fromRow}:$${column}$${toRow}`;
+    return escapeXml(`'${sheetName.replace(/'/g, "''")}'!${cells}`);
+  };
+  const colors = ['3B82F6', '10B981', 'F59E0B', 'EF4444', '8B5CF6', 'EC4899'];
+  const series = spec.seriesColumns.map((c, i) =>
+    `<c:ser><c:idx val="${i}"/><c:order val="${i}"/>`
+    + `<c:tx><c:strRef><c:f>${ref(c, 1)}</c:f></c:strRef></c:tx>`
+    + `<c:spPr><a:solidFill><a:srgbClr val="${colors[i % colors.length]}"/></a:solidFill></c:spPr>`
+    + '<c:invertIfNegative val="0"/>'
+    + `<c:cat><c:strRef><c:f>${ref(spec.categoryColumn, 2, rowCount + 1)}</c:f></c:strRef></c:cat>`
+    + `<c:val><c:numRef><c:f>${ref(c, 2, rowCount + 1)}</c:f></c:numRef></c:val></c:ser>`
+  ).join('');
+  const scale = spec.percent ? '<c:max val="1"/><c:min val="0"/>' : '<c:min val="0"/>';
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" '
+    + 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" '
+    + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><c:chart>'
+    + `<c:title><c:tx><c:rich><a:bodyPr/><a:p><a:r><a:t>${escapeXml(spec.title)}</a:t></a:r></a:p></c:rich></c:tx><c:overlay val="0"/></c:title>`
+    + '<c:autoTitleDeleted val="0"/><c:plotArea><c:layout/>'
+    + `<c:barChart><c:barDir val="col"/><c:grouping val="clustered"/><c:varyColors val="0"/>${series}`
+    + '<c:gapWidth val="150"/><c:axId val="1"/><c:axId val="2"/></c:barChart>'
+    + '<c:catAx><c:axId val="1"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/>'
+    + '<c:axPos val="b"/><c:numFmt formatCode="General" sourceLinked="0"/><c:tickLblPos val="nextTo"/>'
+    + '<c:crossAx val="2"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/></c:catAx>'
+    + `<c:valAx><c:axId val="2"/><c:scaling><c:orientation val="minMax"/>${scale}</c:scaling><c:delete val="0"/>`
+    + `<c:axPos val="l"/><c:majorGridlines/><c:numFmt formatCode="${spec.percent ? '0%' : 'General'}" sourceLinked="0"/>`
+    + '<c:tickLblPos val="nextTo"/><c:crossAx val="1"/><c:crosses val="autoZero"/><c:crossBetween val="between"/></c:valAx>'
+    + '</c:plotArea><c:legend><c:legendPos val="b"/><c:overlay val="0"/></c:legend><c:plotVisOnly val="1"/></c:chart></c:chartSpace>';
+}
+
+function drawingXml(column: number): string {
+  const anchor = (col: number, row: number) =>
+    `<xdr:col>${col}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${row}</xdr:row><xdr:rowOff>0</xdr:rowOff>`;
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" '
+    + 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">'
+    + `<xdr:twoCellAnchor><xdr:from>${anchor(column, 1)}</xdr:from><xdr:to>${anchor(column + 8, 18)}</xdr:to>`
+    + '<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="2" name="Chart 1"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>'
+    + '<xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>'
+    + '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">'
+    + '<c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" '
+    + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:id="rId1"/>'
+    + '</a:graphicData></a:graphic></xdr:graphicFrame><xdr:clientData/></xdr:twoCellAnchor></xdr:wsDr>';
+}
+
+function relationships(type: string, target: string, id: string): string {
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`
+    + '</Relationships>';
+}
+
+// Writes the workbook with SheetJS, then adds the frozen header panes,
+// conditional formats and charts to the zipped package.
+export function buildWorkbookFile(sheets: WorkbookSheet[]): Uint8Array {
+  const wb = XLSX.utils.book_new();
+  const names = sheets.map(({ name, sheet }) => {
+    // Excel caps sheet names at 31 characters.
+    XLSX.utils.book_append_sheet(wb, sheet, name.slice(0, 31));
+    return wb.SheetNames[wb.SheetNames.length - 1];
+  });
+  const zip = XLSX.CFB.read(new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' })), { type: 'array' });
+
+  const read = (path: string): string | null => {
+    const entry = XLSX.CFB.find(zip, path);
+    return entry ? bytesToString(entry.content) : null;
+  };
+  const write = (path: string, text: string) => {
+    if (XLSX.CFB.find(zip, path)) XLSX.CFB.utils.cfb_del(zip, path);
+    XLSX.CFB.utils.cfb_add(zip, path, stringToBytes(text));
+  };
+
+  const styles = read('/xl/styles.xml');
+  if (styles) {
+    const dxfs = `<dxfs count="${STATUS_DXFS.length}">${STATUS_DXFS.join('')}</dxfs>`;
+    write('/xl/styles.xml', /<dxfs\b[^>]*\/>|<dxfs\b[\s\S]*?<\/dxfs>/.test(styles)
+      ? styles.replace(/<dxfs\b[^>]*\/>|<dxfs\b[\s\S]*?<\/dxfs>/, dxfs)
+      : styles.replace(/<tableStyles\b|<\/styleSheet>/, (tag) => dxfs + tag));
+  }
+
+  let contentTypes = read('/[Content_Types].xml') || '';
+  let chartCount = 0;
+  sheets.forEach(({ sheet, chart }, i) => {
+    const path = `/xl/worksheets/sheet${i + 1}.xml`;
+    let xml = read(path);
+    const formatting = sheetFormatting.get(sheet);
+    if (!xml) return;
+
+    if (formatting) {
+      xml = xml.replace(
+        /<sheetView\b([^>]*?)\/>/,
+        '<sheetView$1><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>'
+      );
+      xml = insertBefore(xml, conditionalFormatting(formatting), [
+        'dataValidations', 'hyperlinks', 'printOptions', 'pageMargins', 'pageSetup', 'headerFooter',
+        'rowBreaks', 'colBreaks', 'customProperties', 'cellWatches', 'ignoredErrors', 'smartTags',
+        'drawing', 'legacyDrawing', 'picture', 'oleObjects', 'controls', 'tableParts', 'extLst',
+      ]);
+    }
+
+    if (chart && formatting && formatting.rowCount > 0) {
+      const n = ++chartCount;
+      const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1');
+      write(`/xl/charts/chart${n}.xml`, chartXml(names[i], chart, formatting.rowCount));
+      write(`/xl/drawings/drawing${n}.xml`, drawingXml(range.e.c + 2));
+      write(`/xl/drawings/_rels/drawing${n}.xml.rels`, relationships('chart', `../charts/chart${n}.xml`, 'rId1'));
+
+      const relsPath = `/xl/worksheets/_rels/sheet${i + 1}.xml.rels`;
+      const drawingRel = `<Relationship Id="rIdDrawing${n}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing" Target="../drawings/drawing${n}.xml"/>`;
+      const rels = read(relsPath);
+      write(relsPath, rels
+        ? rels.replace('</Relationships>', `${drawingRel}</Relationships>`)
+        : relationships('drawing', `../drawings/drawing${n}.xml`, `rIdDrawing${n}`));
+      xml = insertBefore(xml, `<drawing r:id="rIdDrawing${n}"/>`, [
+        'legacyDrawing', 'legacyDrawingHF', 'picture', 'oleObjects', 'controls', 'webPublishItems', 'tableParts', 'extLst',
+      ]);
+
+      contentTypes = contentTypes.replace('</Types>',
+        `<Override PartName="/xl/charts/chart${n}.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>`
+        + `<Override PartName="/xl/drawings/drawing${n}.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>`
+        + '</Types>');
+    }
+    write(path, xml);
+  });
+  if (chartCount > 0) write('/[Content_Types].xml', contentTypes);
+
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' }));
+}
+
+export function writeWorkbook(sheets: WorkbookSheet[], fileName: string) {
+  downloadFile(
+    buildWorkbookFile(sheets),
+    `${fileName}.xlsx`,
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+}
@@ -0,0 +1,25 @@
+import { buildFeatureCoverage, passRate } from './featureCoverage';
+import { parseResults } from './resultsParser';
+
+test('counts sub-test outcomes per feature tag and language', () => {
+  const results = parseResults(JSON.stringify({
+    runs: {
+      // T2 fails: runtime,data,executable-data,construct-independent
+      'acc_copyin.c': [{ compilation: { result: 0 }, runtime: { result: 2 } }],
+      'acc_copyin.F90': [{ compilation: { result: 1, errors: 'error' } }],
+    },
+  }));
+
+  const rows = buildFeatureCoverage(results);
+  const data = rows.find((r) => r.feature === 'executable-data')!;
+  const cCell = data.byLanguage.C;
+  const fortranCell = data.byLanguage.F90;
+
+  expect(cCell.fail).toBe(1);
+  expect(cCell.pass).toBe(6);
+  expect(passRate(cCell)).toBeCloseTo(6 / 7);
+  expect(fortranCell.fail).toBeGreaterThanOrEqual(7);
+  expect(data.byLanguage.CPP.pass + data.byLanguage.CPP.fail).toBe(0);
+  expect(data.byLanguage.CPP.notRun).toBeGreaterThan(0);
+  expect(passRate(data.byLanguage.CPP)).toBeNull();
+});
@@ -0,0 +1,87 @@
+import { Language, NormalizedRun } from './resultsParser';
+import { SubtestInfo, getSubtestResults, getTestInfo, testManifest } from './testIndex';
+
+export interface CoverageCell {
+  total: number;
+  pass: number;
+  fail: number;
+  unknown: number;
+  notRun: number;
+}
+
+export interface FeatureCoverageRow {
+  feature: string;
+  byLanguage: Record<Language, CoverageCell>;
+  overall: CoverageCell;
+}
+
+function emptyCell(): CoverageCell {
+  return { total: 0, pass: 0, fail: 0, unknown: 0, notRun: 0 };
+}
+
+export function passRate(cell: CoverageCell): number | null {
+  const decided = cell.pass + cell.fail;
+  return decided === 0 ? null : cell.pass / decided;
+}
+
+// Cell colour for a pass rate: red (0%) through yellow to green (100%).
+export function heatColor(rate: number | null, darkMode: boolean): string {
+  if (rate === null) return darkMode ? '#374151' : '#e5e7eb';
+  return `hsl(${Math.round(rate * 120)}, 70%, ${darkMode ? 35 : 55}%)`;
+}
+
+// Joins the sub-test tags from the manifest with a result file. Every tagged
+// sub-test counts once towards each of its tags; sub-tests of files missing
+// from the results are counted as not run. keysOf picks something other than
+// the tags to group by, such as the clauses a sub-test uses.
+export function buildFeatureCoverage(
+  results: NormalizedRun,
+  keysOf: (subtest: SubtestInfo) => string[] = (subtest) => subtest.tags
+): FeatureCoverageRow[] {
+  const rows = new Map<string, FeatureCoverageRow>();
+  const rowFor = (feature: string) => {
+    let row = rows.get(feature);
+    if (!row) {
+      row = {
+        feature,
+        byLanguage: { C: emptyCell(), CPP: emptyCell(), F90: emptyCell() },
+        overall: emptyCell(),
+      };
+      rows.set(feature, row);
+    }
+    return row;
+  };
+
+  const seen = new Set<string>();
+  for (const test of results.tests) {
+    const info = getTestInfo(test.name);
+    if (!info) continue;
+    seen.add(test.name.split(/[\\/]/).pop() || test.name);
+
+    for (const subtest of getSubtestResults(test)) {
+      const key = subtest.status === 'pass' ? 'pass' : subtest.status === 'unknown' ? 'unknown' : 'fail';
+      for (const tag of keysOf(subtest)) {
+        const row = rowFor(tag);
+        for (const cell of [row.byLanguage[info.language], row.overall]) {
+          cell.total++;
+          cell[key]++;
+        }
+      }
+    }
+  }
+
+  for (const [fileName, info] of Object.entries(testManifest)) {
+    if (seen.has(fileName)) continue;
+    for (const subtest of info.subtests) {
+      for (const tag of keysOf(subtest)) {
+        const row = rowFor(tag);
+        for (const cell of [row.byLanguage[info.language], row.overall]) {
+          cell.total++;
+          cell.notRun++;
+        }
+      }
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => a.feature.localeCompare(b.feature));
+}
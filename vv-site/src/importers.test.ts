@@ -0,0 +1,104 @@
+import { parseResults, summarizeResults } from './resultsParser';
+import { parseXml } from './xml';
+
+function statuses(text: string) {
+  return parseResults(text).tests.map((t) => [t.name, t.language, t.compiler.result, t.runtime.result]);
+}
+
+test('imports JUnit XML with per-phase and combined test cases', () => {
+  const junit = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="openacc" timestamp="2024-05-01T02:00:00" hostname="node1">
+    <properties><property name="compiler" value="nvc 24.5"/></properties>
+    <testcase classname="compile" name="acc_copyin.c"/>
+    <testcase classname="run" name="acc_copyin.c">
+      <failure message="exited with code 2">Test failed &amp; aborted</failure>
+    </testcase>
+    <testcase classname="vv.acc_copyout.F90" name="compile">
+      <failure message="compilation failed"><![CDATA[acc_copyout.F90:12: error: bad <clause>]]></failure>
+    </testcase>
+    <testcase name="acc_create.cpp"><system-out>all good</system-out></testcase>
+    <testcase name="acc_delete.c"><skipped message="no device"/></testcase>
+  </testsuite>
+</testsuites>`;
+
+  const run = parseResults(junit);
+  expect(run.format).toBe('junit');
+  expect(run.configuration).toMatchObject({ compiler: 'nvc 24.5', timestamp: '2024-05-01T02:00:00' });
+  expect(statuses(junit)).toEqual([
+    ['acc_copyin.c', 'C', 0, 2],
+    ['acc_copyout.F90', 'F90', 1, 'Unknown'],
+    ['acc_create.cpp', 'CPP', 0, 0],
+    ['acc_delete.c', 'C', 0, 'Unknown'],
+  ]);
+  expect(run.tests[0].runtime.stderr).toBe('exited with code 2\nTest failed & aborted');
+  expect(run.tests[1].compiler.stderr).toContain('bad <clause>');
+  expect(run.tests[3].runtime.reason).toContain('Skipped: no device');
+});
+
+test('imports CTest XML with named exit codes', () => {
+  const ctest = `<?xml version="1.0"?>
+<Site BuildName="Linux-nvc" Name="node1">
+  <Testing>
+    <StartDateTime>May 01 02:00 UTC</StartDateTime>
+    <StartTestTime>1714528800</StartTestTime>
+    <TestList><Test>./acc_copyin.c</Test></TestList>
+    <Test Status="passed"><Name>acc_copyin.c</Name><Results><Measurement><Value>ok</Value></Measurement></Results></Test>
+    <Test Status="failed">
+      <Name>acc_wait.cpp</Name>
+      <Results>
+        <NamedMeasurement type="text/string" name="Exit Code"><Value>SEGFAULT</Value></NamedMeasurement>
+        <NamedMeasurement type="text/string" name="Completion Status"><Value>Completed</Value></NamedMeasurement>
+      </Results>
+    </Test>
+    <Test Status="failed">
+      <Name>build_acc_update.F90</Name>
+      <Results><NamedMeasurement name="Exit Value"><Value>2</Value></NamedMeasurement></Results>
+    </Test>
+  </Testing>
+</Site>`;
+
+  const run = parseResults(ctest);
+  expect(run.format).toBe('ctest');
+  expect(run.configuration).toMatchObject({ BuildName: 'Linux-nvc', start_time: 1714528800 });
+  expect(statuses(ctest)).toEqual([
+    ['acc_copyin.c', 'C', 0, 0],
+    ['acc_update.F90', 'F90', 2, 'Unknown'],
+    ['acc_wait.cpp', 'CPP', 0, 139],
+  ]);
+});
+
+test('imports TAP with YAML diagnostics and skips', () => {
+  const tap = [
+    'TAP version 13',
+    '1..3',
+    'ok 1 - acc_copyin.c',
+    'not ok 2 - acc_copyout.cpp',
+    '  ---',
+    '  message: returned 4',
+    '  ...',
+    'ok 3 - acc_create.F90 # SKIP no device',
+    'not ok 4 - acc_delete.c # TODO runtime not ready',
+    'ok 5 - acc_wait.c # TODO',
+  ].join('\n');
+
+  const run = parseResults(tap);
+  expect(run.format).toBe('tap');
+  expect(statuses(tap)).toEqual([
+    ['acc_copyin.c', 'C', 0, 0],
+    ['acc_copyout.cpp', 'CPP', 0, 4],
+    ['acc_create.F90', 'F90', 0, 'Unknown'],
+    ['acc_delete.c', 'C', 0, 'Unknown'],
+    ['acc_wait.c', 'C', 0, 0],
+  ]);
+  expect(run.tests[3].runtime.reason).toBe('TODO: runtime not ready');
+  // Skips and TODOs do not count against the runtime pass rate.
+  const summary = summarizeResults(run, 'runtime');
+  expect(summary.C.fail + summary.F90.fail).toBe(0);
+});
+
+test('reports where malformed XML breaks', () => {
+  expect(() => parseXml('<testsuite>\n  <testcase name="a.c">\n</testsuite>')).toThrow(
+    'Malformed XML at line 3, column 1: unexpected </testsuite>, expected </testcase>'
+  );
+});
@@ -0,0 +1,240 @@
+import { XmlElement, childElement, childElements, findElements, parseXml } from './xml';
+
+export type ImportedFormat = 'junit' | 'ctest' | 'tap';
+
+// The importers rebuild the harness's own "runs" layout, so everything after
+// ingestion treats JUnit, CTest and TAP files like JSON result files.
+export interface ImportedResults {
+  format: ImportedFormat;
+  parsed: { runs: { [testName: string]: any[] }; testsuite_configuration?: { [key: string]: string | number } };
+}
+
+type Phase = 'compiler' | 'runtime' | 'both';
+
+interface PhaseOutcome {
+  testName: string;
+  phase: Phase;
+  passed: boolean;
+  skipped?: boolean;
+  // A TAP # TODO test: not a failure when it fails, like a skip.
+  todo?: boolean;
+  returnCode?: number;
+  stderr: string;
+  stdout: string;
+}
+
+// The file name without any directory or dotted package prefix.
+const TEST_FILE = /[\w-]+\.(?:c|cpp|f90)\b/i;
+const COMPILE_PHASE = /\b(?:compil\w*|build)\b/i;
+const RUNTIME_PHASE = /\b(?:run|runtime|exec\w*)\b/i;
+// CTest names such as "build_acc_copyin.c" put the phase in front of the file.
+const PHASE_PREFIX = /^(compile|compilation|build|run|exec|execute)[_-]/i;
+const RETURN_CODE = /(?:exit(?:ed)?(?: with)?(?: code| status| value)?|return(?:ed)?(?: code)?)\s*[:=]?\s*(-?\d+)/i;
+
+// Names the test after the source file it mentions; JUnit harnesses often
+// report "compile acc_copyin.c" or put the file in the classname instead.
+function testNameOf(...candidates: (string | undefined)[]): string {
+  for (const candidate of candidates) {
+    const match = candidate && TEST_FILE.exec(candidate);
+    if (match) return match[0].replace(PHASE_PREFIX, '');
+  }
+  return (candidates.find(Boolean) || 'unnamed').trim();
+}
+
+function phaseOf(...labels: (string | undefined)[]): Phase {
+  const text = labels.filter(Boolean).join(' ').replace(TEST_FILE, (file) => {
+    const prefix = PHASE_PREFIX.exec(file);
+    return prefix ? ` ${prefix[1]} ` : ' ';
+  });
+  if (COMPILE_PHASE.test(text)) return 'compiler';
+  if (RUNTIME_PHASE.test(text)) return 'runtime';
+  return 'both';
+}
+
+function returnCodeIn(text: string): number | undefined {
+  const match = RETURN_CODE.exec(text);
+  return match ? Number(match[1]) : undefined;
+}
+
+// Folds the per-phase outcomes of each test into one run. A test reported
+// without a phase stands for compilation and execution together; a failure
+// then counts against the compiler only when its message says so. Skips, in
+// any phase, become a runtime without a verdict rather than a failure.
+function toRuns(outcomes: PhaseOutcome[]): { [testName: string]: any[] } {
+  const runs: { [testName: string]: any[] } = {};
+
+  for (const outcome of outcomes) {
+    if (!runs[outcome.testName]) runs[outcome.testName] = [{}];
+    const run = runs[outcome.testName][0];
+    const phase = outcome.skipped ? 'runtime'
+      : outcome.phase === 'both' && !outcome.passed
+      ? (COMPILE_PHASE.test(outcome.stderr.split('\n')[0]) ? 'compiler' : 'runtime')
+      : outcome.phase;
+
+    const failureCode = outcome.returnCode && outcome.returnCode !== 0 ? outcome.returnCode : 1;
+    const section = outcome.skipped
+      ? {
+        result: 'Unknown',
+        skipped: true,
+        errors: `${outcome.todo ? 'TODO' : 'Skipped'}: ${outcome.stderr || 'no reason given'}`,
+        output: outcome.stdout,
+      }
+      : { result: outcome.passed ? 0 : failureCode, errors: outcome.stderr, output: outcome.stdout };
+
+    if (phase === 'compiler') {
+      run.compilation = section;
+    } else {
+      run.compilation = run.compilation || { result: 0, errors: '', output: '' };
+      run.runtime = section;
+    }
+  }
+
+  // A test that was only reported as compiled has no runtime verdict.
+  for (const [testName, [run]] of Object.entries(runs)) {
+    if (!run.compilation) run.compilation = { result: 0, errors: '', output: '' };
+    if (!run.runtime && run.compilation.result === 0) {
+      runs[testName] = [{ ...run, runtime: { result: 1, errors: 'No runtime result in the imported file', output: '' } }];
+    }
+  }
+  return runs;
+}
+
+function text(element: XmlElement | undefined): string {
+  return element ? element.text.trim() : '';
+}
+
+export function importJUnit(source: string): ImportedResults {
+  const root = parseXml(source);
+  const suites = root.name === 'testsuite' ? [root] : findElements(root, 'testsuite');
+  const outcomes: PhaseOutcome[] = [];
+  const configuration: { [key: string]: string } = {};
+
+  for (const suite of suites) {
+    for (const key of ['name', 'hostname', 'timestamp']) {
+      if (suite.attributes[key] && !configuration[key]) configuration[key] = suite.attributes[key];
+    }
+    for (const property of findElements(suite, 'property')) {
+      if (property.attributes.name) configuration[property.attributes.name] = property.attributes.value ?? text(property);
+    }
+
+    for (const testcase of childElements(suite, 'testcase')) {
+      const { name, classname } = testcase.attributes;
+      // Sub-test cases ("acc_copyin.c:T2", as toJUnitXml writes them) follow
+      // from the whole test's return code, so only the test itself is read.
+      if (/:T\d+$/.test(name || '')) continue;
+      const problem = childElement(testcase, 'failure') || childElement(testcase, 'error');
+      const skipped = childElement(testcase, 'skipped');
+      const message = problem
+        ? [problem.attributes.message, text(problem)].filter(Boolean).join('\n')
+        : skipped ? skipped.attributes.message || text(skipped) : '';
+      const stderr = [message, text(childElement(testcase, 'system-err'))].filter(Boolean).join('\n');
+
+      // Without a phase in the names, the failure type may carry one
+      // ("compiler: syntax-error", as toJUnitXml writes it).
+      const phase = phaseOf(name, classname);
+      outcomes.push({
+        testName: testNameOf(name, classname),
+        phase: phase === 'both' && problem ? phaseOf(problem.attributes.type) : phase,
+        passed: !problem && !skipped,
+        skipped: !!skipped,
+        returnCode: returnCodeIn(stderr),
+        stderr,
+        stdout: text(childElement(testcase, 'system-out')),
+      });
+    }
+  }
+
+  return { format: 'junit', parsed: { runs: toRuns(outcomes), testsuite_configuration: configuration } };
+}
+
+// CTest reports exit problems such as "Timeout" or "SEGFAULT" by name.
+const CTEST_EXIT_CODES: Record<string, number> = { timeout: 124, segfault: 139, bus_error: 135, 'child aborted': 134 };
+
+export function importCTest(source: string): ImportedResults {
+  const root = parseXml(source);
+  const outcomes: PhaseOutcome[] = [];
+
+  for (const test of findElements(root, 'Test').filter((t) => t.attributes.Status)) {
+    const name = text(childElement(test, 'Name'));
+    const measurements: Record<string, string> = {};
+    for (const measurement of findElements(test, 'NamedMeasurement')) {
+      measurements[measurement.attributes.name] = text(childElement(measurement, 'Value'));
+    }
+    const output = findElements(test, 'Measurement').map((m) => text(childElement(m, 'Value'))).join('\n');
+    const status = test.attributes.Status.toLowerCase();
+    const exitValue = Number(measurements['Exit Value']);
+    const exitCode = (measurements['Exit Code'] || '').toLowerCase();
+
+    outcomes.push({
+      testName: testNameOf(name, text(childElement(test, 'FullName'))),
+      phase: phaseOf(name),
+      passed: status === 'passed',
+      skipped: status === 'notrun',
+      returnCode: CTEST_EXIT_CODES[exitCode] ?? (isNaN(exitValue) ? undefined : exitValue),
+      stderr: status === 'passed' ? '' : [measurements['Exit Code'], measurements['Completion Status']].filter(Boolean).join(': '),
+      stdout: output,
+    });
+  }
+
+  // StartTestTime is in epoch seconds; the trends page reads it as start_time.
+  const configuration: { [key: string]: string | number } = { ...root.attributes };
+  const testing = childElement(root, 'Testing') || root;
+  const startDate = text(childElement(testing, 'StartDateTime'));
+  const startTime = Number(text(childElement(testing, 'StartTestTime')));
+  if (startDate) configuration.date = startDate;
+  if (startTime) configuration.start_time = startTime;
+
+  return { format: 'ctest', parsed: { runs: toRuns(outcomes), testsuite_configuration: configuration } };
+}
+
+const TAP_TEST_LINE = /^(not )?ok\b\s*(\d+)?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(\w+)\s*(.*))?$/i;
+
+export function importTAP(source: string): ImportedResults {
+  const outcomes: PhaseOutcome[] = [];
+  let current: PhaseOutcome | null = null;
+  let inYaml = false;
+
+  for (const line of source.split(/\r?\n/)) {
+    const match = TAP_TEST_LINE.exec(line.trim());
+    if (match && !inYaml) {
+      const [, notOk, number, description, directive = '', reason] = match;
+      // Per the TAP spec a failing TODO test is not a failure and a passing
+      // one is a pass; SKIP carries no verdict either way.
+      const todo = directive.toLowerCase() === 'todo';
+      const skipped = directive.toLowerCase() === 'skip' || (todo && !!notOk);
+      current = {
+        testName: testNameOf(description, `test ${number}`),
+        phase: phaseOf(description),
+        passed: !notOk && !skipped,
+        skipped,
+        todo,
+        stderr: skipped ? reason || '' : '',
+        stdout: '',
+      };
+      outcomes.push(current);
+    } else if (current && /^\s+---\s*$/.test(line)) {
+      inYaml = true;
+    } else if (current && inYaml) {
+      if (/^\s+\.\.\.\s*$/.test(line)) inYaml = false;
+      else current.stderr += `${current.stderr ? '\n' : ''}${line.trim()}`;
+    } else if (current && /^\s*#/.test(line)) {
+      current.stdout += `${current.stdout ? '\n' : ''}${line.replace(/^\s*#\s?/, '')}`;
+    }
+  }
+
+  for (const outcome of outcomes) outcome.returnCode = returnCodeIn(outcome.stderr);
+  return { format: 'tap', parsed: { runs: toRuns(outcomes) } };
+}
+
+// Picks an importer from the file's contents; JSON (and the `var jsonResults =`
+// form) returns null and is left to parseResultsJSON.
+export function importForeignResults(source: string): ImportedResults | null {
+  const trimmed = source.trim();
+  if (trimmed.startsWith('<')) {
+    return /<Site\b/.test(trimmed) && /<Testing\b/.test(trimmed) ? importCTest(trimmed) : importJUnit(trimmed);
+  }
+  if (/^(?:TAP version \d+|\d+\.\.\d+|(?:not )?ok\b)/i.test(trimmed)) {
+    return importTAP(trimmed);
+  }
+  return null;
+}
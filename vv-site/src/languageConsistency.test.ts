@@ -0,0 +1,39 @@
+import { buildConsistencyRows, countOutliers } from './languageConsistency';
+import { parseResults } from './resultsParser';
+
+const pass = { compilation: { result: 0 }, runtime: { result: 0 } };
+const compileFail = { compilation: { result: 2, errors: 'error: unsupported clause' } };
+const crash = { compilation: { result: 0 }, runtime: { result: 139, errors: 'Segmentation fault' } };
+
+test('pivots variants by base name and flags the language that fails alone', () => {
+  const rows = buildConsistencyRows(parseResults(JSON.stringify({
+    runs: {
+      'acc_copyin.c': [pass],
+      'acc_copyin.cpp': [pass],
+      'acc_copyin.F90': [compileFail],
+      'acc_async_test.c': [crash],
+      'acc_async_test.cpp': [compileFail],
+      'acc_async_test.F90': [pass],
+      'my_extra_test.c': [pass],
+    },
+  })));
+
+  expect(rows.map((r) => [r.baseName, r.finding, r.outlier])).toEqual([
+    ['acc_async_test', 'split', null],
+    ['acc_copyin', 'outlier', 'F90'],
+    ['my_extra_test', 'all-pass', null],
+  ]);
+  expect(rows[1].variants.F90).toMatchObject({ name: 'acc_copyin.F90', status: 'compile-fail', reason: expect.stringMatching(/unsupported clause/) });
+  expect(rows[0].variants.C.status).toBe('runtime-fail');
+  expect(countOutliers(rows)).toEqual({ C: 0, CPP: 0, F90: 1 });
+});
+
+test('lists missing variants and whether the suite has them', () => {
+  const [row] = buildConsistencyRows(parseResults(JSON.stringify({ runs: { 'acc_copyin.c': [pass] } })));
+
+  expect(row.missing).toEqual(['CPP', 'F90']);
+  expect(row.variants.F90).toMatchObject({ status: 'missing', name: 'acc_copyin.F90', inSuite: true });
+
+  const [extra] = buildConsistencyRows(parseResults(JSON.stringify({ runs: { 'my_extra_test.c': [pass] } })));
+  expect(extra.variants.CPP.inSuite).toBe(false);
+});
@@ -0,0 +1,113 @@
+import { LANGUAGES, Language, NormalizedRun, TestResult, isRuntimeFailure } from './resultsParser';
+import { testManifest } from './testIndex';
+
+export type VariantStatus = 'pass' | 'compile-fail' | 'runtime-fail' | 'unknown' | 'missing';
+
+export const VARIANT_STATUS_LABELS: Record<VariantStatus, string> = {
+  pass: 'Pass',
+  'compile-fail': 'Compile fail',
+  'runtime-fail': 'Runtime fail',
+  unknown: 'Unknown',
+  missing: 'Missing',
+};
+
+export interface LanguageVariant {
+  // The test's file name, or for a missing variant the name it would have.
+  name: string;
+  status: VariantStatus;
+  reason: string;
+  // For missing variants: whether the suite has the file, so the run skipped it.
+  inSuite: boolean;
+}
+
+export type ConsistencyFinding = 'all-pass' | 'all-fail' | 'outlier' | 'split' | 'undecided';
+
+export const FINDING_LABELS: Record<ConsistencyFinding, string> = {
+  'all-pass': 'Passes in every language',
+  'all-fail': 'Fails in every language',
+  outlier: 'Fails in one language only',
+  split: 'Passes in some languages',
+  undecided: 'No decided result',
+};
+
+export interface ConsistencyRow {
+  baseName: string;
+  variants: Record<Language, LanguageVariant>;
+  finding: ConsistencyFinding;
+  // The only failing language when every other variant that ran passed.
+  outlier: Language | null;
+  missing: Language[];
+}
+
+const EXTENSIONS: Record<Language, string> = { C: 'c', CPP: 'cpp', F90: 'F90' };
+
+function baseNameOf(testName: string): string {
+  const fileName = testName.split(/[\\/]/).pop() || testName;
+  return fileName.replace(/\.(c|cpp|f90)$/i, '');
+}
+
+// How one language variant of a test fared; also used per runtime routine.
+export function variantOf(test: TestResult): LanguageVariant {
+  const status: VariantStatus = test.compiler.result !== 0 ? 'compile-fail'
+    : test.runtime.result === 'Unknown' ? 'unknown'
+    : isRuntimeFailure(test.runtime.result) ? 'runtime-fail'
+    : 'pass';
+  const reason = status === 'compile-fail' ? test.compiler.reason : test.runtime.reason;
+  return { name: test.name, status, reason, inSuite: true };
+}
+
+function isFailure(status: VariantStatus): boolean {
+  return status === 'compile-fail' || status === 'runtime-fail';
+}
+
+// Pivots the results by base test name with one variant per language. A test
+// that fails in one language while the others pass usually points at that
+// language's front end rather than the runtime.
+export function buildConsistencyRows(results: NormalizedRun): ConsistencyRow[] {
+  const groups = new Map<string, Partial<Record<Language, TestResult>>>();
+  for (const test of results.tests) {
+    if (!test.language) continue;
+    const baseName = baseNameOf(test.name);
+    const group = groups.get(baseName) || {};
+    group[test.language] = test;
+    groups.set(baseName, group);
+  }
+
+  const rows: ConsistencyRow[] = [];
+  for (const baseName of Array.from(groups.keys()).sort()) {
+    const group = groups.get(baseName)!;
+    const variants = {} as Record<Language, LanguageVariant>;
+    for (const language of LANGUAGES) {
+      const test = group[language];
+      const name = `${baseName}.${EXTENSIONS[language]}`;
+      variants[language] = test
+        ? variantOf(test)
+        : { name, status: 'missing', reason: '', inSuite: name in testManifest };
+    }
+
+    const failing = LANGUAGES.filter((l) => isFailure(variants[l].status));
+    const passing = LANGUAGES.filter((l) => variants[l].status === 'pass');
+    const finding: ConsistencyFinding = failing.length === 0 ? (passing.length > 0 ? 'all-pass' : 'undecided')
+      : passing.length === 0 ? 'all-fail'
+      : failing.length === 1 ? 'outlier'
+      : 'split';
+
+    rows.push({
+      baseName,
+      variants,
+      finding,
+      outlier: finding === 'outlier' ? failing[0] : null,
+      missing: LANGUAGES.filter((l) => variants[l].status === 'missing'),
+    });
+  }
+  return rows;
+}
+
+// How many tests fail only in each language.
+export function countOutliers(rows: ConsistencyRow[]): Record<Language, number> {
+  const counts = { C: 0, CPP: 0, F90: 0 };
+  for (const row of rows) {
+    if (row.outlier) counts[row.outlier]++;
+  }
+  return counts;
+}
@@ -0,0 +1,44 @@
+import { mergeResults, toHarnessRun } from './merge';
+import { parseResults } from './resultsParser';
+
+const pass = { compilation: { result: 0 }, runtime: { result: 0 } };
+const fail = { compilation: { result: 0 }, runtime: { result: 1, errors: 'Test failed' } };
+
+function shard(fileName: string, runs: object, configuration?: object) {
+  return { fileName, results: parseResults(JSON.stringify({ testsuite_configuration: configuration, runs })) };
+}
+
+const shards = [
+  shard('node-2.json', { 'a.c': [pass], 'b.F90': [pass] }, { compiler: 'nvc 24.5', host: 'node-2' }),
+  shard('node-1.json', { 'a.c': [fail], 'c.cpp': [pass] }, { compiler: 'nvc 24.5', host: 'node-1' }),
+];
+
+test('combines disjoint shards and records the merged files', () => {
+  const { parsed, conflicts, files } = mergeResults(shards, 'latest');
+
+  expect(Object.keys(parsed.runs)).toEqual(['a.c', 'b.F90', 'c.cpp']);
+  expect(files).toEqual(['node-1.json', 'node-2.json']);
+  expect(parsed.testsuite_configuration).toMatchObject({ host: 'node-2', merged_from: files });
+  expect(conflicts).toHaveLength(1);
+  expect(conflicts[0]).toMatchObject({ name: 'a.c', disagree: true, resolution: 'Kept node-2.json' });
+});
+
+test('resolves conflicts by policy', () => {
+  const status = (policy: 'latest' | 'any-fail' | 'all-runs') =>
+    parseResults(JSON.stringify(mergeResults(shards, policy).parsed)).tests.find((t) => t.name === 'a.c');
+
+  expect(status('latest')?.runtime.result).toBe(0);
+  expect(status('any-fail')?.runtime.result).toBe(1);
+  expect(status('all-runs')?.runs).toHaveLength(2);
+  expect(status('all-runs')?.runtime.result).toBe(1);
+});
+
+test('rewrites runs from other layouts in the harness layout', () => {
+  expect(toHarnessRun({ return_code: 0, stderr: '', stdout: 'ok' })).toEqual({
+    compilation: { result: 0, errors: '', output: 'ok' },
+    runtime: { result: 0, errors: '', output: '' },
+  });
+  expect(toHarnessRun({ success: false, stderr: 'error: x' })).toEqual({
+    compilation: { result: 1, errors: 'error: x', output: '' },
+  });
+});
@@ -0,0 +1,106 @@
+import { NormalizedRun, TestResult, compilerSucceeded, sortTestNames } from './resultsParser';
+import { getCompilerStatus, getRuntimeStatus } from './errorParser';
+import { TestOutcome, getTestOutcome } from './comparison';
+import { SeriesEntry, orderSeries } from './trends';
+
+export type MergePolicy = 'latest' | 'any-fail' | 'all-runs';
+
+export const MERGE_POLICIES: { key: MergePolicy; label: string; description: string }[] = [
+  { key: 'latest', label: 'Latest wins', description: 'Keep the runs from the most recent file that has the test.' },
+  { key: 'any-fail', label: 'Any fail', description: 'Keep a failing file\'s runs when any file failed the test.' },
+  { key: 'all-runs', label: 'Keep all runs', description: 'Keep every run; the first failing run decides the status.' },
+];
+
+export interface MergeSource {
+  file: string;
+  outcome: TestOutcome;
+  runCount: number;
+}
+
+// A test found in more than one file.
+export interface MergeConflict {
+  name: string;
+  // In merge order, oldest file first.
+  sources: MergeSource[];
+  // Whether the files disagree on pass or fail.
+  disagree: boolean;
+  resolution: string;
+}
+
+export interface MergeResult {
+  // The merged result set in the OpenACC `runs` layout.
+  parsed: { runs: { [testName: string]: any[] }; testsuite_configuration?: any };
+  conflicts: MergeConflict[];
+  // File names in merge order.
+  files: string[];
+}
+
+// Rewrites a run entry in the harness layout so runs from the other formats
+// survive the export. Entries already in that layout are kept as they are.
+export function toHarnessRun(run: any): any {
+  if (run && typeof run.compilation === 'object') return run;
+  const compiler = getCompilerStatus(run);
+  const entry: any = { compilation: { result: compiler.result, errors: compiler.stderr, output: compiler.stdout } };
+  if (compilerSucceeded(run)) {
+    const runtime = getRuntimeStatus(run);
+    entry.runtime = { result: runtime.result, errors: runtime.stderr, output: runtime.output };
+  }
+  return entry;
+}
+
+function resolve(
+  policy: MergePolicy,
+  found: { file: string; test: TestResult }[]
+): { runs: any[]; resolution: string } {
+  const latest = found[found.length - 1];
+  if (policy === 'all-runs') {
+    return { runs: found.flatMap((f) => f.test.runs), resolution: `Kept all ${found.reduce((n, f) => n + f.test.runs.length, 0)} runs` };
+  }
+  if (policy === 'any-fail') {
+    const failing = found.filter((f) => !getTestOutcome(f.test).passed);
+    if (failing.length > 0) {
+      const chosen = failing[failing.length - 1];
+      return { runs: chosen.test.runs, resolution: `Kept failing runs from ${chosen.file}` };
+    }
+  }
+  return { runs: latest.test.runs, resolution: `Kept ${latest.file}` };
+}
+
+// Merges shards of one logical run. Files are taken in run-time order when
+// every file has a timestamp, otherwise in file-name order, so "latest" means
+// the last file in that order. The configuration comes from the latest file
+// that has one, with the merged file names added under merged_from.
+export function mergeResults(shards: SeriesEntry[], policy: MergePolicy): MergeResult {
+  const ordered = orderSeries(shards);
+  const byName = new Map<string, { file: string; test: TestResult }[]>();
+  for (const shard of ordered) {
+    for (const test of shard.results.tests) {
+      const found = byName.get(test.name) || [];
+      found.push({ file: shard.fileName, test });
+      byName.set(test.name, found);
+    }
+  }
+
+  const runs: { [testName: string]: any[] } = {};
+  const conflicts: MergeConflict[] = [];
+  for (const name of sortTestNames(Array.from(byName.keys()))) {
+    const found = byName.get(name) as { file: string; test: TestResult }[];
+    const { runs: kept, resolution } = resolve(policy, found);
+    runs[name] = kept.map(toHarnessRun);
+
+    if (found.length > 1) {
+      const sources = found.map((f) => ({ file: f.file, outcome: getTestOutcome(f.test), runCount: f.test.runs.length }));
+      conflicts.push({
+        name,
+        sources,
+        disagree: new Set(sources.map((s) => s.outcome.passed)).size > 1,
+        resolution,
+      });
+    }
+  }
+
+  const files = ordered.map((s) => s.fileName);
+  const configured: NormalizedRun | undefined = ordered.map((s) => s.results).reverse().find((r) => r.configuration);
+  const testsuite_configuration = { ...(configured?.configuration ?? {}), merged_from: files };
+  return { parsed: { testsuite_configuration, runs }, conflicts, files };
+}
@@ -0,0 +1,53 @@
+import { parseResults } from './resultsParser';
+import { toCsv, toHtmlReport, toJUnitXml, toMarkdown } from './reportExport';
+import { importJUnit } from './importers';
+
+const results = parseResults(JSON.stringify({
+  testsuite_configuration: { compiler: 'nvc' },
+  runs: {
+    'acc_copyin.c': [{ compilation: { result: 0 }, runtime: { result: 2, errors: 'Test failed' } }],
+    'acc_copyout.cpp': [{ compilation: { result: 1, errors: 'error: "copyout" | unsupported' } }],
+    'acc_create.F90': [{ compilation: { result: 0 }, runtime: { result: 0 } }],
+  },
+}));
+
+test('exports JUnit XML with a testcase per test and sub-test that reads back in', () => {
+  const xml = toJUnitXml(results);
+
+  expect(xml).toContain('<testsuite name="openacc-vv.C"');
+  expect(xml).toContain('<property name="compiler" value="nvc"/>');
+  expect(xml).toContain('name="acc_copyin.c:T2">\n      <failure type="fail"');
+  expect(xml).toContain('message="error: &quot;copyout&quot; | unsupported"');
+
+  const reimported = importJUnit(xml).parsed.runs;
+  expect(reimported['acc_copyout.cpp'][0].compilation.result).not.toBe(0);
+  expect(reimported['acc_copyin.c'][0].runtime.result).not.toBe(0);
+  expect(reimported['acc_create.F90'][0].runtime.result).toBe(0);
+});
+
+test('exports CSV with quoted cells and failing sub-tests', () => {
+  const lines = toCsv(results).split('\r\n');
+
+  expect(lines[0]).toBe('Test Name,Language,Compiler Result,Compiler Reason,Runtime Result,Runtime Reason,Failure Category,Failing Sub-tests');
+  expect(lines[1]).toMatch(/^acc_copyin\.c,C,0,Pass,2,Test failed,.*,T2$/);
+  expect(lines[2]).toContain('"error: ""copyout"" | unsupported"');
+});
+
+test('exports a Markdown summary with escaped table cells', () => {
+  const markdown = toMarkdown(results, 'Nightly');
+
+  expect(markdown).toContain('## Nightly');
+  expect(markdown).toContain('| C | 1 | 1 / 1 (100.0%) | 0 / 1 (0.0%) |');
+  expect(markdown).toContain('| CPP | 1 | 0 / 1 (0.0%) | 0 / 0 (n/a) |');
+  expect(markdown).toContain('### Failing Tests (2 of 2)');
+  expect(markdown).toContain('| `acc_copyout.cpp` | error: "copyout" \\| unsupported |');
+});
+
+test('exports a self-contained HTML report', () => {
+  const html = toHtmlReport(results, 'Nightly <nvc>');
+
+  expect(html).toContain('<title>Nightly &lt;nvc&gt;</title>');
+  expect(html).toContain('<svg');
+  expect(html).not.toMatch(/<(?:script|link)\b|src="http/);
+  expect(html).toContain('<tr class="fail"><td>acc_copyin.c</td>');
+});
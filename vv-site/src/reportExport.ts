@@ -0,0 +1,289 @@
+import {
+  LANGUAGES, Language, NormalizedRun, TestResult, getTestFailure, summarizeResults,
+} from './resultsParser';
+import { CategorizedFailure, FailureCause, clusterFailures, getCategoryLabel } from './errorParser';
+import { getSubtestResults } from './testIndex';
+import { flattenConfiguration } from './runConfiguration';
+
+// Text exports for CI dashboards, PR comments and e-mail. They only build
+// strings, so the caller decides how to save them (downloadText in the app).
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0.
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function failureOutput(test: TestResult): string {
+  return test.compiler.result !== 0
+    ? [test.compiler.stderr, test.compiler.stdout].filter(Boolean).join('\n')
+    : [test.runtime.stderr, test.runtime.output].filter(Boolean).join('\n');
+}
+
+export interface LanguageRow {
+  language: Language;
+  total: number;
+  compilerPass: number;
+  // Runtime counts cover only the tests that compiled, as in summarizeResults.
+  runtimeTotal: number;
+  runtimePass: number;
+}
+
+export function buildLanguageRows(results: NormalizedRun): LanguageRow[] {
+  const compiler = summarizeResults(results, 'compiler');
+  const runtime = summarizeResults(results, 'runtime');
+  return LANGUAGES.map((language) => ({
+    language,
+    total: compiler[language].total,
+    compilerPass: compiler[language].pass,
+    runtimeTotal: runtime[language].total - compiler[language].fail,
+    runtimePass: runtime[language].pass,
+  }));
+}
+
+function percent(pass: number, total: number): string {
+  return total === 0 ? 'n/a' : `${((pass / total) * 100).toFixed(1)}%`;
+}
+
+export function allFailures(results: NormalizedRun): CategorizedFailure[] {
+  return results.tests.flatMap((test) => {
+    const failure = test.language ? getTestFailure(test) : null;
+    return failure ? [failure] : [];
+  });
+}
+
+// One testsuite per language with a testcase per test, followed by one per
+// tagged sub-test (named "acc_copyin.c:T2"). Failure types read
+// "<phase>: <category>". Sub-tests whose return code does not map onto the
+// failcode bits are reported as skipped.
+export function toJUnitXml(results: NormalizedRun, suiteName = 'openacc-vv'): string {
+  const properties = flattenConfiguration(results.configuration)
+    .map(([name, value]) => `      <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`);
+  const suites: string[] = [];
+
+  for (const language of [...LANGUAGES, null]) {
+    const tests = results.tests.filter((t) => t.language === language);
+    if (tests.length === 0) continue;
+    const classname = `${suiteName}.${language ?? 'Other'}`;
+    const cases: string[] = [];
+    let failures = 0;
+    let skipped = 0;
+
+    for (const test of tests) {
+      const failure = getTestFailure(test);
+      if (failure) {
+        failures++;
+        cases.push(
+          `    <testcase classname="${escapeXml(classname)}" name="${escapeXml(test.name)}">\n` +
+          `      <failure type="${test.compiler.result !== 0 ? 'compiler' : 'runtime'}: ${escapeXml(failure.category)}" message="${escapeXml(failure.reason)}">${escapeXml(failureOutput(test))}</failure>\n` +
+          '    </testcase>'
+        );
+      } else {
+        cases.push(`    <testcase classname="${escapeXml(classname)}" name="${escapeXml(test.name)}"/>`);
+      }
+
+      for (const subtest of getSubtestResults(test)) {
+        const open = `    <testcase classname="${escapeXml(`${classname}.${test.name}`)}" name="${escapeXml(`${test.name}:${subtest.id}`)}"`;
+        if (subtest.status === 'pass') {
+          cases.push(`${open}/>`);
+        } else if (subtest.status === 'unknown') {
+          skipped++;
+          cases.push(`${open}>\n      <skipped message="${escapeXml(subtest.reason)}"/>\n    </testcase>`);
+        } else {
+          failures++;
+          cases.push(`${open}>\n      <failure type="${subtest.status}" message="${escapeXml(subtest.reason)}"/>\n    </testcase>`);
+        }
+      }
+    }
+
+    suites.push(
+      `  <testsuite name="${escapeXml(classname)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="${skipped}">\n` +
+      (properties.length ? `    <properties>\n${properties.join('\n')}\n    </properties>\n` : '') +
+      `${cases.join('\n')}\n  </testsuite>`
+    );
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="${escapeXml(suiteName)}">\n${suites.join('\n')}\n</testsuites>\n`;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(results: NormalizedRun): string {
+  const header = [
+    'Test Name', 'Language', 'Compiler Result', 'Compiler Reason', 'Runtime Result', 'Runtime Reason',
+    'Failure Category', 'Failing Sub-tests',
+  ];
+  const rows = results.tests.map((test) => {
+    const failure = getTestFailure(test);
+    return [
+      test.name,
+      test.language ?? 'Other',
+      test.compiler.result,
+      test.compiler.reason,
+      test.runtime.result,
+      test.runtime.reason,
+      failure ? getCategoryLabel(failure.category) : '',
+      getSubtestResults(test).filter((s) => s.status === 'fail').map((s) => s.id).join(' '),
+    ];
+  });
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// A summary table per language plus the largest failure causes and the first
+// failing tests, sized for a PR comment.
+export function toMarkdown(results: NormalizedRun, title = 'OpenACC V&V Results', topCount = 10): string {
+  const lines = [`## ${title}`, ''];
+
+  lines.push('| Language | Tests | Compiler Pass | Runtime Pass |', '| --- | ---: | ---: | ---: |');
+  for (const row of buildLanguageRows(results)) {
+    lines.push(
+      `| ${row.language} | ${row.total} | ${row.compilerPass} / ${row.total} (${percent(row.compilerPass, row.total)}) ` +
+      `| ${row.runtimePass} / ${row.runtimeTotal} (${percent(row.runtimePass, row.runtimeTotal)}) |`
+    );
+  }
+
+  const failures = allFailures(results);
+  if (failures.length === 0) {
+    lines.push('', 'All tests passed.');
+    return `${lines.join('\n')}\n`;
+  }
+
+  lines.push('', '### Top Failure Causes', '', '| Cause | Tests | Most common message |', '| --- | ---: | --- |');
+  for (const cause of clusterFailures(failures).slice(0, topCount)) {
+    lines.push(`| ${markdownCell(cause.label)} | ${cause.count} | ${markdownCell(truncate(cause.signatures[0].signature, 100))} |`);
+  }
+
+  lines.push('', `### Failing Tests (${Math.min(topCount, failures.length)} of ${failures.length})`, '', '| Test | Reason |', '| --- | --- |');
+  for (const failure of failures.slice(0, topCount)) {
+    lines.push(`| \`${failure.name}\` | ${markdownCell(truncate(failure.reason, 120))} |`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Grouped bars of compiler and runtime pass rate per language, drawn as inline
+// SVG so the report needs no scripts or network access.
+function passRateChart(rows: LanguageRow[]): string {
+  const width = 520;
+  const height = 220;
+  const plotTop = 20;
+  const plotHeight = 160;
+  const groupWidth = (width - 60) / rows.length;
+  const bars: string[] = [];
+
+  rows.forEach((row, i) => {
+    const series = [
+      { label: 'Compiler', pass: row.compilerPass, total: row.total, color: '#3b82f6' },
+      { label: 'Runtime', pass: row.runtimePass, total: row.runtimeTotal, color: '#10b981' },
+    ];
+    series.forEach((s, j) => {
+      const rate = s.total === 0 ? 0 : s.pass / s.total;
+      const barHeight = rate * plotHeight;
+      const x = 50 + i * groupWidth + 20 + j * 50;
+      const y = plotTop + plotHeight - barHeight;
+      bars.push(
+        `<rect x="${x}" y="${y.toFixed(1)}" width="44" height="${barHeight.toFixed(1)}" fill="${s.color}">` +
+        `<title>${row.language} ${s.label}: ${s.pass} / ${s.total}</title></rect>`,
+        `<text x="${x + 22}" y="${(y - 4).toFixed(1)}" text-anchor="middle" font-size="11">${percent(s.pass, s.total)}</text>`
+      );
+    });
+    bars.push(`<text x="${50 + i * groupWidth + 67}" y="${plotTop + plotHeight + 18}" text-anchor="middle" font-size="13">${row.language}</text>`);
+  });
+
+  const axis = [0, 50, 100].map((tick) => {
+    const y = plotTop + plotHeight - (tick / 100) * plotHeight;
+    return `<line x1="45" x2="${width}" y1="${y}" y2="${y}" stroke="#e5e7eb"/><text x="40" y="${y + 4}" text-anchor="end" font-size="11">${tick}%</text>`;
+  });
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="Pass rate per language">` +
+    `${axis.join('')}${bars.join('')}` +
+    `<rect x="${width - 170}" y="0" width="10" height="10" fill="#3b82f6"/><text x="${width - 155}" y="9" font-size="11">Compiler</text>` +
+    `<rect x="${width - 90}" y="0" width="10" height="10" fill="#10b981"/><text x="${width - 75}" y="9" font-size="11">Runtime</text>` +
+    '</svg>'
+  );
+}
+
+function causeRows(causes: FailureCause[]): string {
+  return causes
+    .map((cause) => `<tr><td>${escapeHtml(cause.label)}</td><td class="num">${cause.count}</td><td><code>${escapeHtml(truncate(cause.signatures[0].signature, 160))}</code></td></tr>`)
+    .join('\n');
+}
+
+function testRow(test: TestResult): string {
+  const failure = getTestFailure(test);
+  const status = failure ? 'fail' : 'pass';
+  const log = failure ? failureOutput(test) : '';
+  return (
+    `<tr class="${status}"><td>${escapeHtml(test.name)}</td><td>${test.language ?? 'Other'}</td>` +
+    `<td>${escapeHtml(test.compiler.reason)}</td><td>${escapeHtml(test.runtime.reason)}</td>` +
+    `<td>${failure ? escapeHtml(getCategoryLabel(failure.category)) : ''}</td>` +
+    `<td>${log ? `<details><summary>log</summary><pre>${escapeHtml(log)}</pre></details>` : ''}</td></tr>`
+  );
+}
+
+export function toHtmlReport(results: NormalizedRun, title = 'OpenACC V&V Results'): string {
+  const rows = buildLanguageRows(results);
+  const causes = clusterFailures(allFailures(results));
+  const configuration = flattenConfiguration(results.configuration);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111827; }
+  h1 { color: #4f46e5; }
+  table { border-collapse: collapse; margin: 1rem 0; width: 100%; font-size: 0.9rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #4f46e5; color: #fff; }
+  td.num { text-align: right; }
+  tr.pass td:first-child { color: #15803d; }
+  tr.fail td:first-child { color: #b91c1c; font-weight: 600; }
+  pre { white-space: pre-wrap; max-height: 20rem; overflow: auto; background: #f3f4f6; padding: 0.5rem; }
+  .filter { margin: 1rem 0; }
+  .filter:has(#failuresOnly:checked) ~ table tr.pass { display: none; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Generated ${new Date().toISOString()} from ${results.tests.length} tests.</p>
+${configuration.length ? `<details><summary>Run Configuration</summary><table>${configuration.map(([key, value]) => `<tr><td><code>${escapeHtml(key)}</code></td><td>${escapeHtml(value)}</td></tr>`).join('')}</table></details>` : ''}
+<h2>Summary</h2>
+${passRateChart(rows)}
+<table>
+<tr><th>Language</th><th>Tests</th><th>Compiler Pass</th><th>Runtime Pass</th></tr>
+${rows.map((r) => `<tr><td>${r.language}</td><td class="num">${r.total}</td><td class="num">${r.compilerPass} / ${r.total} (${percent(r.compilerPass, r.total)})</td><td class="num">${r.runtimePass} / ${r.runtimeTotal} (${percent(r.runtimePass, r.runtimeTotal)})</td></tr>`).join('\n')}
+</table>
+${causes.length ? `<h2>Failure Causes</h2>\n<table>\n<tr><th>Cause</th><th>Tests</th><th>Most common message</th></tr>\n${causeRows(causes)}\n</table>` : ''}
+<h2>Tests</h2>
+<div class="filter"><label><input type="checkbox" id="failuresOnly"> Only failing tests</label></div>
+<table>
+<tr><th>Test</th><th>Language</th><th>Compiler</th><th>Runtime</th><th>Failure Category</th><th>Log</th></tr>
+${results.tests.map(testRow).join('\n')}
+</table>
+</body>
+</html>
+`;
+}
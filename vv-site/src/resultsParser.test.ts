@@ -0,0 +1,215 @@
+import {
+  getLanguage, getTestFailure, parseResults, parseResultsJSON, sortTestNames, summarizeResults, withoutLogs,
+} from './resultsParser';
+
+const passingRun = {
+  compilation: { result: 0, errors: '', output: '' },
+  runtime: { result: 0, errors: '', output: '' },
+};
+
+const compilerFailRun = {
+  compilation: { result: 2, errors: 'acc_copyin.c(12): error: invalid text in pragma', output: '' },
+  runtime: { result: 0, errors: '', output: '' },
+};
+
+const runtimeFailRun = {
+  compilation: { result: 0, errors: '', output: '' },
+  runtime: { result: 1, errors: 'Segmentation fault (core dumped)', output: '' },
+};
+
+test('parses the OpenACC "runs" format', () => {
+  const text = JSON.stringify({
+    testsuite_configuration: { compiler: 'nvc' },
+    runs: {
+      'acc_copyin.c': [passingRun],
+      'acc_copyin.F90': [compilerFailRun],
+    },
+  });
+
+  const results = parseResults(text);
+
+  expect(results.format).toBe('runs');
+  expect(results.tests.map((t) => t.name)).toEqual(['acc_copyin.c', 'acc_copyin.F90']);
+  expect(results.tests[1].compiler.result).toBe(2);
+  expect(results.tests[1].compiler.reason).toMatch(/invalid text in pragma/);
+  expect(results.tests[1].runtime.result).toBe('Unknown');
+});
+
+test('parses the "results" format and wraps single runs in an array', () => {
+  const text = JSON.stringify({
+    results: {
+      'acc_copyout.cpp': runtimeFailRun,
+    },
+  });
+
+  const results = parseResults(text);
+
+  expect(results.format).toBe('results');
+  expect(results.tests[0].runs).toHaveLength(1);
+  expect(results.tests[0].runtime.result).toBe(1);
+  expect(results.tests[0].runtime.reason).toMatch(/Segmentation fault/);
+});
+
+test('parses the OpenMP flat format and ignores testsuite_configuration', () => {
+  const text = 'var jsonResults = ' + JSON.stringify({
+    testsuite_configuration: { compiler: 'clang' },
+    'test_target.c': passingRun,
+    'test_target.F90': [runtimeFailRun],
+  });
+
+  const results = parseResults(text);
+
+  expect(results.format).toBe('flat');
+  expect(results.tests.map((t) => t.name)).toEqual(['test_target.c', 'test_target.F90']);
+});
+
+test('parses a flat array keyed by testname, test or name', () => {
+  const text = JSON.stringify([
+    { testname: 'a.c', ...passingRun },
+    { test: 'a.c', ...runtimeFailRun },
+    { name: 'b.cpp', ...passingRun },
+    { ...passingRun },
+  ]);
+
+  const results = parseResults(text);
+
+  expect(results.format).toBe('array');
+  expect(results.tests.map((t) => t.name)).toEqual(['a.c', 'b.cpp']);
+  expect(results.tests[0].runs).toHaveLength(2);
+  expect(results.tests[0].runtime.result).toBe(1);
+});
+
+test('summarizes the same file identically regardless of format', () => {
+  const runs = {
+    'x.c': [passingRun],
+    'x.cpp': [compilerFailRun],
+    'x.F90': [runtimeFailRun],
+  };
+  const flatArray = Object.entries(runs).map(([name, [run]]) => ({ name, ...run }));
+
+  for (const text of [
+    JSON.stringify({ runs }),
+    JSON.stringify({ results: runs }),
+    JSON.stringify(runs),
+    JSON.stringify(flatArray),
+  ]) {
+    const results = parseResults(text);
+    const compiler = summarizeResults(results, 'compiler');
+    const runtime = summarizeResults(results, 'runtime');
+
+    expect(compiler.C).toEqual({ total: 1, pass: 1, fail: 0 });
+    expect(compiler.CPP).toEqual({ total: 1, pass: 0, fail: 1 });
+    expect(compiler.F90).toEqual({ total: 1, pass: 1, fail: 0 });
+    expect(runtime.F90).toEqual({ total: 1, pass: 0, fail: 1 });
+    expect(runtime.failures.map((f) => f.name)).toEqual(['x.F90']);
+  }
+});
+
+test('sorts test names by base name, then C, C++, Fortran', () => {
+  expect(sortTestNames(['b.F90', 'a.cpp', 'b.c', 'a.F90', 'a.c'])).toEqual([
+    'a.c', 'a.cpp', 'a.F90', 'b.c', 'b.F90',
+  ]);
+  expect(getLanguage('kernels_if.F90')).toBe('F90');
+  expect(getLanguage('acc_testsuite.h')).toBeNull();
+});
+
+test('reports skipped entries and never drops tests from the summary silently', () => {
+  const results = parseResults(JSON.stringify({
+    'a.c': [passingRun, 'not a run'],
+    'b.c': 42,
+    'c.cpp': ['pass'],
+    'README.md': [passingRun],
+  }));
+
+  expect(results.tests.map((t) => t.name)).toEqual(['a.c', 'README.md']);
+  expect(results.warnings).toEqual([
+    { entry: 'b.c', reason: 'Value is a number, not a run or list of runs', skipped: true },
+    { entry: 'a.c', reason: '1 of 2 runs are not objects and were ignored', skipped: false },
+    { entry: 'c.cpp', reason: 'None of its 1 runs is an object', skipped: true },
+    expect.objectContaining({ entry: 'README.md', skipped: false }),
+  ]);
+  expect(summarizeResults(results, 'compiler').unclassified).toEqual(['README.md']);
+
+  const array = parseResults(JSON.stringify([{ testname: 'a.c', ...passingRun }, { ...passingRun }, null]));
+  expect(array.warnings.map((w) => `${w.entry}: ${w.reason}`)).toEqual([
+    'Item 2: No "testname", "test" or "name" field',
+    'Item 3: Not an object',
+  ]);
+});
+
+test('gives the line and column of JSON syntax errors in the uploaded file', () => {
+  const error = (text: string) => {
+    try {
+      parseResultsJSON(text);
+    } catch (e) {
+      return e as { message: string; line: number | null; column: number | null };
+    }
+    throw new Error('expected a parse error');
+  };
+
+  expect(error('var jsonResults = {\n  "a.c": [],\n  "b.c": [}\n')).toMatchObject({ line: 3, column: 11 });
+  expect(error('{\n  "a.c": [oops]\n}')).toMatchObject({ line: 2, column: 11 });
+  expect(error('{"a.c": [').line).toBe(1);
+  expect(error('').message).toBe('The file is empty.');
+  expect(() => parseResults('42')).toThrow(/single number/);
+});
+
+test('classifies the stability of repeated runs within one file', () => {
+  const results = parseResults(JSON.stringify({
+    runs: {
+      'a.c': [passingRun, passingRun],
+      'b.c': [passingRun, runtimeFailRun, passingRun],
+      'c.c': [compilerFailRun, runtimeFailRun],
+    },
+  }));
+
+  expect(results.tests.map((t) => t.stability)).toEqual([
+    { stability: 'always-pass', passed: 2, total: 2 },
+    { stability: 'intermittent', passed: 2, total: 3 },
+    { stability: 'always-fail', passed: 0, total: 2 },
+  ]);
+  // The first failing run still decides the merged status.
+  expect(results.tests[1].runtime.reason).toMatch(/Segmentation fault/);
+});
+
+test('passes over skipped runs when merging and classifying repeated runs', () => {
+  const skippedRun = {
+    compilation: { result: 0, errors: '', output: '' },
+    runtime: { result: 'Unknown', skipped: true, errors: 'Skipped: no device', output: '' },
+  };
+  const results = parseResults(JSON.stringify({
+    runs: {
+      'a.c': [skippedRun, runtimeFailRun],
+      'b.c': [passingRun, skippedRun],
+      'c.c': [skippedRun, skippedRun],
+    },
+  }));
+
+  expect(results.tests[0].runtime.reason).toMatch(/Segmentation fault/);
+  expect(results.tests[1].runtime.result).toBe(0);
+  expect(results.tests[2].runtime).toMatchObject({ result: 'Unknown', reason: 'Skipped: no device' });
+  expect(results.tests.map((t) => t.stability)).toEqual([
+    { stability: 'always-fail', passed: 0, total: 1 },
+    { stability: 'always-pass', passed: 1, total: 1 },
+    { stability: 'always-pass', passed: 0, total: 0 },
+  ]);
+  expect(summarizeResults(results, 'runtime').C).toEqual({ total: 3, pass: 2, fail: 1 });
+});
+
+test('keeps the verdicts and classified failures of a run without its logs', () => {
+  const results = parseResults(JSON.stringify({
+    runs: {
+      'a.c': [passingRun, runtimeFailRun],
+      'b.cpp': [compilerFailRun],
+    },
+  }));
+  const light = withoutLogs(results);
+
+  expect(JSON.stringify(light.tests.map((t) => t.runs))).not.toMatch(/errors|output/);
+  expect(light.tests.map((t) => t.compiler.stderr + t.runtime.stderr)).toEqual(['', '']);
+  expect(light.tests.map((t) => [t.compiler.result, t.runtime.result, t.runtime.reason, t.stability])).toEqual(
+    results.tests.map((t) => [t.compiler.result, t.runtime.result, t.runtime.reason, t.stability])
+  );
+  expect(light.tests.map(getTestFailure)).toEqual(results.tests.map(getTestFailure));
+  expect(summarizeResults(light, 'runtime')).toEqual(summarizeResults(results, 'runtime'));
+});
@@ -0,0 +1,432 @@
+import { CategorizedFailure, classifyFailure, getCompilerStatus, getRuntimeStatus } from './errorParser';
+import { ImportedFormat, importForeignResults } from './importers';
+
+export type Language = 'C' | 'CPP' | 'F90';
+export type Mode = 'compiler' | 'runtime';
+export type ResultFormat = 'runs' | 'results' | 'flat' | 'array' | ImportedFormat;
+
+export const LANGUAGES: Language[] = ['C', 'CPP', 'F90'];
+
+export const FORMAT_LABELS: Record<ResultFormat, string> = {
+  runs: 'Harness JSON ("runs" object)',
+  results: 'Harness JSON ("results" object)',
+  flat: 'JSON keyed by test file',
+  array: 'JSON array of test entries',
+  junit: 'JUnit XML',
+  ctest: 'CTest XML',
+  tap: 'TAP',
+};
+
+// File types the upload inputs offer: JSON results plus the JUnit XML, CTest
+// XML and TAP files handled by importers.ts.
+export const RESULT_FILE_TYPES = '.json,.xml,.tap,.txt';
+
+export interface CompilerResult {
+  result: number;
+  reason: string;
+  stderr: string;
+  stdout: string;
+}
+
+export interface RuntimeResult {
+  result: number | string;
+  reason: string;
+  stderr: string;
+  output: string;
+}
+
+export type Stability = 'always-pass' | 'always-fail' | 'intermittent';
+
+export const STABILITY_LABELS: Record<Stability, string> = {
+  'always-pass': 'Always passes',
+  'always-fail': 'Always fails',
+  intermittent: 'Intermittent',
+};
+
+// How a test's repeated runs within one file turned out.
+export interface TestStability {
+  stability: Stability;
+  passed: number;
+  total: number;
+}
+
+export interface TestResult {
+  name: string;
+  language: Language | null;
+  runs: any[];
+  compiler: CompilerResult;
+  runtime: RuntimeResult;
+  stability: TestStability;
+  // Set by withoutLogs, since classifying the failure needs the logs.
+  failure?: CategorizedFailure | null;
+}
+
+// Something in the file that was not read as given. Skipped entries are not in
+// `tests`; the others are, with part of their data ignored or uncounted.
+export interface ParseWarning {
+  entry: string;
+  reason: string;
+  skipped: boolean;
+}
+
+export interface NormalizedRun {
+  format: ResultFormat;
+  // The harness's testsuite_configuration block, when the file has one.
+  configuration: any | null;
+  tests: TestResult[];
+  warnings: ParseWarning[];
+}
+
+// A file that is not valid JSON or has no results in it. Line and column are
+// 1-based, and null when the browser does not say where the problem is.
+export class ResultsParseError extends Error {
+  line: number | null;
+  column: number | null;
+
+  constructor(message: string, line: number | null = null, column: number | null = null) {
+    super(line === null ? message : `${message} (line ${line}, column ${column})`);
+    this.name = 'ResultsParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface LanguageCounts {
+  total: number;
+  pass: number;
+  fail: number;
+}
+
+export interface Summary {
+  C: LanguageCounts;
+  CPP: LanguageCounts;
+  F90: LanguageCounts;
+  failures: CategorizedFailure[];
+  targetSpec: string | null;
+  outOfSpec: { name: string; versions: string[] }[];
+  // Tests that are not C, C++ or Fortran files and so are in no language's counts.
+  unclassified: string[];
+}
+
+export function getLanguage(testName: string): Language | null {
+  const ext = testName.split('.').pop()?.toLowerCase();
+  if (ext === 'c') return 'C';
+  if (ext === 'cpp') return 'CPP';
+  if (ext === 'f90') return 'F90';
+  return null;
+}
+
+export function sortTestNames(testNames: string[]): string[] {
+  const langOrder: { [key: string]: number } = { c: 0, cpp: 1, f90: 2 };
+  return testNames.sort((a, b) => {
+    const [baseA, extA] = a.toLowerCase().split(/\.(?=[^.]+$)/);
+    const [baseB, extB] = b.toLowerCase().split(/\.(?=[^.]+$)/);
+    if (baseA < baseB) return -1;
+    if (baseA > baseB) return 1;
+    return (langOrder[extA] ?? 3) - (langOrder[extB] ?? 3);
+  });
+}
+
+export function compilerSucceeded(run: any): boolean {
+  return getCompilerStatus(run).result === 0 || run.compilation?.success === true;
+}
+
+export function runtimeSucceeded(run: any): boolean {
+  return getRuntimeStatus(run).result === 0 || run.runtime?.success === true;
+}
+
+// A run a JUnit or TAP file reported as skipped. It has no verdict, so it
+// neither passes nor fails.
+export function runSkipped(run: any): boolean {
+  return (run.runtime || run.execution || run)?.skipped === true;
+}
+
+// Where JSON.parse failed, from its message: Firefox gives the line and column,
+// V8 the offset, or for an unexpected token a snippet with ten characters of
+// context either side.
+function jsonErrorOffset(message: string, text: string): number | null {
+  const position = /at position (\d+)/.exec(message);
+  if (position) return Number(position[1]);
+  if (/end of (JSON )?(input|data)/i.test(message)) return text.length;
+  const token = /Unexpected token '(.+?)', (\.\.\.)?"([\s\S]*)"(\.\.\.)? is not valid JSON/.exec(message);
+  if (!token) return null;
+  const at = text.indexOf(token[3]);
+  if (at < 0) return null;
+  return token[2] ? at + 10 : at + token[3].indexOf(token[1]);
+}
+
+function lineAndColumn(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// Strips the `var jsonResults =` prefix some harnesses emit and parses the rest.
+// Errors give the line and column in the file as uploaded.
+export function parseResultsJSON(fileText: string): any {
+  const trimmed = fileText.trim();
+  const sanitized = trimmed.replace(/^var jsonResults\s*=\s*/, '');
+  if (!sanitized) throw new ResultsParseError('The file is empty.');
+  try {
+    return JSON.parse(sanitized);
+  } catch (e) {
+    const message = (e as Error).message;
+    const reported = /line (\d+) column (\d+)/.exec(message);
+    const offset = jsonErrorOffset(message, sanitized);
+    const where = reported
+      ? { line: Number(reported[1]), column: Number(reported[2]) }
+      : offset === null ? null : lineAndColumn(fileText, fileText.indexOf(trimmed) + trimmed.length - sanitized.length + offset);
+    const reason = message
+      .replace(/^JSON\.parse: /, '')
+      .replace(/ (in JSON )?at (position \d+|line \d+ column \d+ of the JSON data).*$/, '')
+      .replace(/, (\.\.\.)?"[\s\S]*" is not valid JSON$/, '');
+    throw new ResultsParseError(`The file is not valid JSON: ${reason}`, where?.line ?? null, where?.column ?? null);
+  }
+}
+
+// Detects which of the supported layouts `parsed` uses and groups its entries
+// into a run array per test name. Entries that name no test are returned in
+// `skipped`.
+export function extractRuns(parsed: any): { format: ResultFormat; runs: { [key: string]: any[] }; skipped: ParseWarning[] } {
+  const runs: { [key: string]: any[] } = {};
+  const skipped: ParseWarning[] = [];
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new ResultsParseError(`The file holds a single ${parsed === null ? 'null' : typeof parsed} rather than test results.`);
+  }
+
+  // === Case 1: OpenACC format (has "runs" key) ===
+  if (parsed.runs && typeof parsed.runs === 'object') {
+    for (const [key, value] of Object.entries(parsed.runs)) {
+      runs[key] = Array.isArray(value) ? value : [value];
+    }
+    return { format: 'runs', runs, skipped };
+  }
+
+  // === Case 2: (has "results" key) ===
+  if (parsed.results && typeof parsed.results === 'object') {
+    for (const [key, value] of Object.entries(parsed.results)) {
+      runs[key] = Array.isArray(value) ? value : [value];
+    }
+    return { format: 'results', runs, skipped };
+  }
+
+  // === Case 3: OpenMP flat structure (keys are filenames) ===
+  if (!Array.isArray(parsed)) {
+    for (const [key, value] of Object.entries(parsed)) {
+      if (key === 'testsuite_configuration') continue;
+      if (typeof value !== 'object' || value === null) {
+        skipped.push({ entry: key, reason: `Value is ${value === null ? 'null' : `a ${typeof value}`}, not a run or list of runs`, skipped: true });
+        continue;
+      }
+      runs[key] = Array.isArray(value) ? value : [value];
+    }
+    return { format: 'flat', runs, skipped };
+  }
+
+  // === Case 4: Flat array of objects (with testname/test/name) ===
+  parsed.forEach((item: any, index: number) => {
+    const name = item?.testname || item?.test || item?.name;
+    if (typeof name !== 'string' || !name) {
+      const reason = typeof item === 'object' && item !== null ? 'No "testname", "test" or "name" field' : 'Not an object';
+      skipped.push({ entry: `Item ${index + 1}`, reason, skipped: true });
+      return;
+    }
+    if (!runs[name]) runs[name] = [];
+    runs[name].push(item);
+  });
+  return { format: 'array', runs, skipped };
+}
+
+// Reduces a test's run array to one compiler and one runtime status. The first
+// failing run decides the status; runtime is only evaluated when every run compiled.
+// Skipped runs are passed over, and give the status only when every run was skipped.
+export function getTestStatus(runs: any[]): { compiler: CompilerResult; runtime: RuntimeResult } {
+  const firstCompilerFail = runs.find((run) => !compilerSucceeded(run));
+  if (firstCompilerFail) {
+    const cStatus = getCompilerStatus(firstCompilerFail);
+    return {
+      compiler: { ...cStatus, reason: cStatus.reason || 'Unknown' },
+      runtime: {
+        result: 'Unknown',
+        reason: 'Not executed due to compiler failure',
+        stderr: '',
+        output: '',
+      },
+    };
+  }
+
+  const compiler: CompilerResult = { result: 0, reason: 'Pass', stderr: '', stdout: '' };
+  const decided = runs.filter((run) => !runSkipped(run));
+  const firstRuntimeFail = decided.length === 0 ? runs[0] : decided.find((run) => !runtimeSucceeded(run));
+  if (!firstRuntimeFail) {
+    return { compiler, runtime: { result: 0, reason: 'Pass', stderr: '', output: '' } };
+  }
+
+  const rStatus = getRuntimeStatus(firstRuntimeFail);
+  return { compiler, runtime: { ...rStatus, reason: rStatus.reason || 'Unknown' } };
+}
+
+// A run passes when it compiled and ran successfully, judged as getTestStatus
+// judges a test.
+export function runPassed(run: any): boolean {
+  return compilerSucceeded(run) && runtimeSucceeded(run);
+}
+
+// Skipped runs are left out, so a test that was skipped in some runs and
+// passed in the rest always passes.
+export function getTestStability(runs: any[]): TestStability {
+  const decided = runs.filter((run) => !runSkipped(run));
+  const passed = decided.filter(runPassed).length;
+  const stability: Stability = passed === decided.length ? 'always-pass' : passed === 0 ? 'always-fail' : 'intermittent';
+  return { stability, passed, total: decided.length };
+}
+
+// Reports (tests done, total tests) every this many tests.
+const PROGRESS_INTERVAL = 250;
+
+export function normalizeResults(parsed: any, onProgress?: (done: number, total: number) => void): NormalizedRun {
+  const { format, runs, skipped } = extractRuns(parsed);
+  const tests: TestResult[] = [];
+  const warnings = skipped.slice();
+  const testNames = sortTestNames(Object.keys(runs));
+
+  for (let index = 0; index < testNames.length; index++) {
+    const testName = testNames[index];
+    if (onProgress && index % PROGRESS_INTERVAL === 0) onProgress(index, testNames.length);
+    const runArray = runs[testName].filter((run) => typeof run === 'object' && run !== null && !Array.isArray(run));
+    const ignored = runs[testName].length - runArray.length;
+    if (runArray.length === 0) {
+      const reason = ignored === 0 ? 'Has no runs' : `None of its ${ignored} runs is an object`;
+      warnings.push({ entry: testName, reason, skipped: true });
+      continue;
+    }
+    if (ignored > 0) {
+      warnings.push({ entry: testName, reason: `${ignored} of ${runs[testName].length} runs are not objects and were ignored`, skipped: false });
+    }
+    if (!getLanguage(testName)) {
+      warnings.push({ entry: testName, reason: 'Not a .c, .cpp or .f90 file, so it is listed apart from the per-language counts', skipped: false });
+    }
+
+    tests.push({
+      name: testName,
+      language: getLanguage(testName),
+      runs: runArray,
+      ...getTestStatus(runArray),
+      stability: getTestStability(runArray),
+    });
+  }
+
+  const configuration = !Array.isArray(parsed) && typeof parsed.testsuite_configuration === 'object'
+    ? parsed.testsuite_configuration
+    : null;
+
+  onProgress?.(testNames.length, testNames.length);
+  return { format, configuration, tests, warnings };
+}
+
+export function parseResults(fileText: string, onProgress?: (done: number, total: number) => void): NormalizedRun {
+  const imported = importForeignResults(fileText);
+  if (imported) return { ...normalizeResults(imported.parsed, onProgress), format: imported.format };
+  return normalizeResults(parseResultsJSON(fileText), onProgress);
+}
+
+// parseResults for one of several files, naming the file in any error.
+export function parseResultsFile(fileName: string, fileText: string): NormalizedRun {
+  try {
+    return parseResults(fileText);
+  } catch (e) {
+    throw new Error(`${fileName}: ${(e as Error).message}`);
+  }
+}
+
+export function isRuntimeFailure(result: number | string): boolean {
+  return (
+    (typeof result === 'number' && result !== 0) ||
+    (typeof result === 'string' && !['pass', 'unknown'].includes(result.toLowerCase()))
+  );
+}
+
+export function getCompilerFailure(test: TestResult): CategorizedFailure {
+  const { reason, stderr, stdout, result } = test.compiler;
+  return classifyFailure('compiler', test.name, reason, { stderr, stdout }, result);
+}
+
+export function getRuntimeFailure(test: TestResult): CategorizedFailure {
+  const { reason, stderr, output, result } = test.runtime;
+  return classifyFailure('runtime', test.name, reason, { stderr, stdout: output }, result);
+}
+
+// The failure that decides a test's outcome: its compiler failure if it did
+// not compile, else its runtime failure, or null when it passed.
+export function getTestFailure(test: TestResult): CategorizedFailure | null {
+  if (test.failure !== undefined) return test.failure;
+  if (test.compiler.result !== 0) return getCompilerFailure(test);
+  return isRuntimeFailure(test.runtime.result) ? getRuntimeFailure(test) : null;
+}
+
+// Keeps only the verdicts of a run: its pass/fail results, stability and
+// classified failures, without the compiler and runtime output. This is what
+// the pages listing every test hold; a test's logs are fetched when shown.
+export function withoutLogs(results: NormalizedRun): NormalizedRun {
+  return {
+    ...results,
+    tests: results.tests.map((test) => ({
+      ...test,
+      runs: test.runs.map((run) => ({
+        compilation: { result: compilerSucceeded(run) ? 0 : getCompilerStatus(run).result },
+        runtime: { result: runtimeSucceeded(run) ? 0 : getRuntimeStatus(run).result, skipped: runSkipped(run) },
+      })),
+      compiler: { ...test.compiler, stderr: '', stdout: '' },
+      runtime: { ...test.runtime, stderr: '', output: '' },
+      failure: getTestFailure(test),
+    })),
+  };
+}
+
+export function summarizeResults(results: NormalizedRun, mode: Mode): Summary {
+  const summary: Summary = {
+    C: { total: 0, pass: 0, fail: 0 },
+    CPP: { total: 0, pass: 0, fail: 0 },
+    F90: { total: 0, pass: 0, fail: 0 },
+    failures: [],
+    targetSpec: null,
+    outOfSpec: [],
+    unclassified: [],
+  };
+
+  for (const test of results.tests) {
+    if (!test.language) {
+      summary.unclassified.push(test.name);
+      continue;
+    }
+    const counts = summary[test.language];
+    counts.total++;
+
+    if (mode === 'compiler') {
+      if (test.compiler.result === 0) {
+        counts.pass++;
+      } else {
+        counts.fail++;
+        summary.failures.push(getTestFailure(test)!);
+      }
+    } else {
+      if (test.compiler.result !== 0) continue;
+      if (!isRuntimeFailure(test.runtime.result)) {
+        counts.pass++;
+      } else {
+        counts.fail++;
+        summary.failures.push(getTestFailure(test)!);
+      }
+    }
+  }
+
+  return summary;
+}
+
+export function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
@@ -0,0 +1,70 @@
+import * as XLSX from 'xlsx-js-style';
+import { buildWorkbookFile } from './excelExport';
+import { buildResultsWorkbook } from './resultsWorkbook';
+import { parseResults } from './resultsParser';
+
+const pass = { compilation: { result: 0 }, runtime: { result: 0 } };
+const crash = { compilation: { result: 0 }, runtime: { result: 139, errors: 'Segmentation fault' } };
+const compileError = { compilation: { result: 1, errors: 'error: unsupported clause "é"' } };
+
+const head = parseResults(JSON.stringify({
+  runs: { 'a.c': [pass], 'b.c': [crash], 'a.cpp': [compileError], 'a.F90': [pass] },
+  testsuite_configuration: { compiler: 'nvc' },
+}));
+const base = parseResults(JSON.stringify({ runs: { 'a.c': [pass], 'b.c': [pass] } }));
+
+function part(file: Uint8Array, path: string): string {
+  const zip = XLSX.CFB.read(file, { type: 'array' });
+  return Buffer.from(XLSX.CFB.find(zip, path).content).toString('utf8');
+}
+
+test('builds summary, language, cause and comparison sheets', () => {
+  const sheets = buildResultsWorkbook(head, {
+    baseline: [],
+    comparison: [{ label: 'old', results: base }, { label: 'new', results: head }],
+  });
+
+  expect(sheets.map((s) => s.name)).toEqual([
+    'Summary', 'C Tests', 'CPP Tests', 'F90 Tests', 'Failures by Cause', 'Comparison', 'Comparison by Test', 'Run Configuration',
+  ]);
+  const summary = XLSX.utils.sheet_to_json<any>(sheets[0].sheet);
+  expect(summary[0]).toMatchObject({ Language: 'C', Tests: 2, 'Compiler Pass': 2, 'Runtime Pass': 1, 'Runtime Pass Rate': 0.5 });
+  expect(summary[1]).toMatchObject({ Language: 'CPP', 'Compiler Fail': 1, 'Runtime Tests': 0, 'Runtime Pass Rate': 'n/a' });
+
+  const causes = XLSX.utils.sheet_to_json<any>(sheets[4].sheet);
+  expect(causes.map((c) => c['Test Names'])).toEqual(expect.arrayContaining(['b.c', 'a.cpp']));
+
+  const byTest = XLSX.utils.sheet_to_json<any>(sheets[6].sheet, { defval: '' });
+  expect(byTest.find((r) => r['Test Name'] === 'b.c')).toMatchObject({ old: 'Pass', new: expect.stringMatching(/segmentation/i) });
+  expect(byTest.find((r) => r['Test Name'] === 'a.F90')).toMatchObject({ old: '', new: 'Pass' });
+});
+
+test('leaves out the comparison sheets for a single file', () => {
+  const names = buildResultsWorkbook(head, { baseline: [], comparison: [{ label: 'only', results: head }] }).map((s) => s.name);
+
+  expect(names).not.toContain('Comparison');
+});
+
+test('writes frozen headers, autofilters, conditional formats and a chart', () => {
+  const file = buildWorkbookFile(buildResultsWorkbook(head, { baseline: [] }));
+
+  const summary = part(file, '/xl/worksheets/sheet1.xml');
+  expect(summary).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+  expect(summary).toContain('<autoFilter ref="A1:I4"/>');
+  expect(summary).toMatch(/<conditionalFormatting sqref="E2:E4"><cfRule type="colorScale"/);
+  expect(summary).toMatch(/<\/conditionalFormatting>.*<ignoredErrors>.*<drawing r:id="rIdDrawing1"\/><\/worksheet>$/);
+
+  const cTests = part(file, '/xl/worksheets/sheet2.xml');
+  expect(cTests).toContain('<conditionalFormatting sqref="B2:B3"><cfRule type="expression" dxfId="0"');
+  expect(cTests).toContain('LOWER(C2)&lt;&gt;&quot;n/a&quot;');
+  expect(part(file, '/xl/worksheets/sheet3.xml')).toContain('unsupported clause &quot;é&quot;');
+
+  expect(part(file, '/xl/styles.xml')).toContain('<dxfs count="3">');
+  expect(part(file, '/xl/charts/chart1.xml')).toContain("<c:f>'Summary'!$E$2:$E$4</c:f>");
+  expect(part(file, '/xl/worksheets/_rels/sheet1.xml.rels')).toContain('Target="../drawings/drawing1.xml"');
+  expect(part(file, '/[Content_Types].xml')).toContain('PartName="/xl/charts/chart1.xml"');
+
+  const reread = XLSX.read(file, { type: 'array' });
+  expect(reread.SheetNames[0]).toBe('Summary');
+  expect(reread.Sheets['CPP Tests'].A2.v).toBe('a.cpp');
+});
@@ -0,0 +1,157 @@
+import { CellValue, WorkbookSheet, buildStyledSheet } from './excelExport';
+import { LANGUAGES, NormalizedRun, TestResult, getTestFailure, sortTestNames } from './resultsParser';
+import { clusterFailures, getCategoryLabel } from './errorParser';
+import { allFailures, buildLanguageRows } from './reportExport';
+import { getTestOutcome } from './comparison';
+import { flattenConfiguration } from './runConfiguration';
+import { BaselineEntry, EXPECTATION_LABELS, getBaseline, getTestExpectation } from './baseline';
+
+export interface ComparedRun {
+  label: string;
+  results: NormalizedRun;
+}
+
+export interface ResultsWorkbookOptions {
+  // Other loaded files; two or more add the comparison sheets.
+  comparison?: ComparedRun[];
+  baseline?: BaselineEntry[];
+}
+
+function rate(pass: number, total: number): CellValue {
+  return total === 0 ? 'n/a' : pass / total;
+}
+
+function summarySheet(results: NormalizedRun): WorkbookSheet {
+  const header = [
+    'Language', 'Tests', 'Compiler Pass', 'Compiler Fail', 'Compiler Pass Rate',
+    'Runtime Tests', 'Runtime Pass', 'Runtime Fail', 'Runtime Pass Rate',
+  ];
+  const body = buildLanguageRows(results).map((row) => [
+    row.language,
+    row.total,
+    row.compilerPass,
+    row.total - row.compilerPass,
+    rate(row.compilerPass, row.total),
+    row.runtimeTotal,
+    row.runtimePass,
+    row.runtimeTotal - row.runtimePass,
+    rate(row.runtimePass, row.runtimeTotal),
+  ]);
+  return {
+    name: 'Summary',
+    sheet: buildStyledSheet(header, body, [12, 10, 15, 15, 18, 15, 15, 15, 18], [], [4, 8]),
+    chart: { title: 'Pass Rate by Language', categoryColumn: 0, seriesColumns: [4, 8], percent: true },
+  };
+}
+
+function testsSheet(name: string, tests: TestResult[], baseline: BaselineEntry[]): WorkbookSheet {
+  // Without a baseline every failure would read "Unexpected failure".
+  const withExpectation = baseline.length > 0;
+  const header = [
+    'Test Name', 'Compiler Result', 'Compiler Reason', 'Runtime Result', 'Runtime Reason', 'Failure Cause',
+    ...(withExpectation ? ['Expectation'] : []),
+    'Compiler Stderr', 'Compiler Stdout', 'Runtime Stderr', 'Runtime Output',
+  ];
+  const body = tests.map((test) => {
+    const failure = getTestFailure(test);
+    const expectation = withExpectation ? getTestExpectation(test, baseline) : null;
+    return [
+      test.name,
+      test.compiler.result,
+      test.compiler.reason,
+      test.runtime.result,
+      test.runtime.reason,
+      failure ? getCategoryLabel(failure.category) : '',
+      ...(withExpectation ? [expectation ? EXPECTATION_LABELS[expectation.status] : ''] : []),
+      test.compiler.stderr,
+      test.compiler.stdout,
+      test.runtime.stderr,
+      test.runtime.output,
+    ];
+  });
+  const widths = [25, 12, 25, 12, 25, 22, ...(withExpectation ? [20] : []), 30, 30, 30, 30];
+  return { name, sheet: buildStyledSheet(header, body, widths, [1, 2, 3, 4]) };
+}
+
+// One row per distinct message, grouped under its cause.
+function causesSheet(results: NormalizedRun): WorkbookSheet {
+  const body = clusterFailures(allFailures(results)).flatMap((cause) =>
+    cause.signatures.map((signature) => [
+      cause.label,
+      cause.count,
+      signature.signature,
+      signature.tests.length,
+      signature.tests.map((t) => t.name).join(', '),
+    ])
+  );
+  return {
+    name: 'Failures by Cause',
+    sheet: buildStyledSheet(['Cause', 'Tests', 'Message', 'Tests With Message', 'Test Names'], body, [28, 8, 60, 12, 60]),
+  };
+}
+
+function comparisonSheets(runs: ComparedRun[]): WorkbookSheet[] {
+  const rows = runs.map((run) => buildLanguageRows(run.results));
+  const summaryHeader = ['Language', ...runs.flatMap((run) => [`${run.label} Compiler Pass Rate`, `${run.label} Runtime Pass Rate`])];
+  const summaryBody = LANGUAGES.map((language, i) => [
+    language,
+    ...rows.flatMap((languageRows) => {
+      const row = languageRows[i];
+      return [rate(row.compilerPass, row.total), rate(row.runtimePass, row.runtimeTotal)];
+    }),
+  ]);
+  const rateColumns = summaryHeader.slice(1).map((_, i) => i + 1);
+
+  // A blank cell means the test is missing from that file.
+  const byName = runs.map((run) => new Map(run.results.tests.map((t) => [t.name, t])));
+  const names = sortTestNames(Array.from(new Set(runs.flatMap((run) => run.results.tests.map((t) => t.name)))));
+  const testBody = names.map((name) => {
+    const outcomes = byName.map((tests) => {
+      const test = tests.get(name);
+      return test ? getTestOutcome(test).reason : '';
+    });
+    const test = byName.map((tests) => tests.get(name)).find(Boolean);
+    return [name, test?.language ?? 'Other', ...outcomes];
+  });
+
+  return [
+    {
+      name: 'Comparison',
+      sheet: buildStyledSheet(summaryHeader, summaryBody, [12, ...rateColumns.map(() => 22)], [], rateColumns),
+      chart: { title: 'Pass Rate by File', categoryColumn: 0, seriesColumns: rateColumns, percent: true },
+    },
+    {
+      name: 'Comparison by Test',
+      sheet: buildStyledSheet(
+        ['Test Name', 'Language', ...runs.map((run) => run.label)],
+        testBody,
+        [30, 10, ...runs.map(() => 30)],
+        runs.map((_, i) => i + 2)
+      ),
+    },
+  ];
+}
+
+// The whole run as one workbook: a summary with a pass-rate chart, one sheet
+// per language, the failures grouped by cause, the comparison with the other
+// loaded files and the run configuration.
+export function buildResultsWorkbook(results: NormalizedRun, options: ResultsWorkbookOptions = {}): WorkbookSheet[] {
+  const baseline = options.baseline ?? getBaseline();
+  const sheets = [summarySheet(results)];
+
+  for (const language of LANGUAGES) {
+    const tests = results.tests.filter((t) => t.language === language);
+    if (tests.length > 0) sheets.push(testsSheet(`${language} Tests`, tests, baseline));
+  }
+  const other = results.tests.filter((t) => !t.language);
+  if (other.length > 0) sheets.push(testsSheet('Other Tests', other, baseline));
+
+  sheets.push(causesSheet(results));
+  if (options.comparison && options.comparison.length >= 2) sheets.push(...comparisonSheets(options.comparison));
+
+  const configRows = flattenConfiguration(results.configuration);
+  if (configRows.length > 0) {
+    sheets.push({ name: 'Run Configuration', sheet: buildStyledSheet(['Setting', 'Value'], configRows, [30, 80]) });
+  }
+  return sheets;
+}
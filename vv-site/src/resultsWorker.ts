@@ -0,0 +1,49 @@
+import { NormalizedRun, parseResults, summarizeResults, withoutLogs } from './resultsParser';
+import { ClassificationRule, setClassificationRules } from './errorParser';
+import { ParseProgress } from './backgroundParse';
+
+export type WorkerRequest =
+  | {
+      type: 'parse';
+      text: string;
+      // The user rules from the page; the worker cannot read localStorage.
+      rules: ClassificationRule[];
+      // Without logs the worker keeps the full run and answers 'test' and
+      // 'run' requests from it.
+      withLogs: boolean;
+    }
+  | { type: 'test'; id: number; name: string }
+  | { type: 'run'; id: number };
+
+// eslint-disable-next-line no-restricted-globals
+const worker = self as unknown as Worker;
+
+let fullRun: NormalizedRun | null = null;
+
+function progress(update: ParseProgress) {
+  worker.postMessage({ type: 'progress', progress: update });
+}
+
+worker.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'test') {
+    worker.postMessage({ type: 'reply', id: request.id, value: fullRun?.tests.find((t) => t.name === request.name) ?? null });
+    return;
+  }
+  if (request.type === 'run') {
+    worker.postMessage({ type: 'reply', id: request.id, value: fullRun });
+    return;
+  }
+
+  try {
+    setClassificationRules(request.rules);
+    progress({ phase: 'parsing', done: 0, total: 1 });
+    const run = parseResults(request.text, (done, total) => progress({ phase: 'normalizing', done, total }));
+    progress({ phase: 'summarizing', done: 0, total: 1 });
+    const summaries = { compiler: summarizeResults(run, 'compiler'), runtime: summarizeResults(run, 'runtime') };
+    if (!request.withLogs) fullRun = run;
+    worker.postMessage({ type: 'done', result: { run: request.withLogs ? run : withoutLogs(run), summaries } });
+  } catch (e) {
+    worker.postMessage({ type: 'error', message: (e as Error).message });
+  }
+};
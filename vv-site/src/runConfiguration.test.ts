@@ -0,0 +1,22 @@
+import { flattenConfiguration, getCompilerLabel } from './runConfiguration';
+
+test('flattens nested configuration into dotted keys', () => {
+  expect(flattenConfiguration({
+    compiler: { name: 'nvc', version: '24.5' },
+    flags: ['-acc', '-gpu=cc80'],
+    device: 'A100',
+  })).toEqual([
+    ['compiler.name', 'nvc'],
+    ['compiler.version', '24.5'],
+    ['flags', '-acc, -gpu=cc80'],
+    ['device', 'A100'],
+  ]);
+  expect(flattenConfiguration(null)).toEqual([]);
+});
+
+test('labels a run with its compiler name and version', () => {
+  expect(getCompilerLabel({ compiler: 'gcc', compiler_version: '14.1' })).toBe('gcc 14.1');
+  expect(getCompilerLabel({ compiler: { name: 'nvc', version: '24.5' } })).toBe('nvc 24.5');
+  expect(getCompilerLabel({ CC: 'clang' })).toBe('clang');
+  expect(getCompilerLabel({ device: 'A100' })).toBeNull();
+});
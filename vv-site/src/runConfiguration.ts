@@ -0,0 +1,51 @@
+// Helpers for the testsuite_configuration block the harness records next to
+// the results (compiler, flags, device, environment).
+
+function stringify(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  return String(value);
+}
+
+// Flattens nested objects into dotted keys, e.g. compiler.version, keeping
+// arrays of scalars on one line.
+export function flattenConfiguration(configuration: any, prefix = ''): [string, string][] {
+  if (!configuration || typeof configuration !== 'object') return [];
+
+  const rows: [string, string][] = [];
+  for (const [key, value] of Object.entries(configuration)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const isNested = value && typeof value === 'object' &&
+      !(Array.isArray(value) && value.every((v) => typeof v !== 'object'));
+    if (isNested) {
+      rows.push(...flattenConfiguration(value, path));
+    } else {
+      rows.push([path, stringify(value)]);
+    }
+  }
+  return rows;
+}
+
+function pick(source: any, keys: string[]): any {
+  for (const key of keys) {
+    if (source?.[key] !== undefined && source[key] !== null && source[key] !== '') return source[key];
+  }
+  return undefined;
+}
+
+// A short "compiler version" label for comparisons, or null when the
+// configuration does not name a compiler.
+export function getCompilerLabel(configuration: any): string | null {
+  if (!configuration || typeof configuration !== 'object') return null;
+
+  let name = pick(configuration, ['compiler_name', 'compiler', 'CC', 'cc', 'FC', 'fc']);
+  let version = pick(configuration, ['compiler_version', 'version']);
+
+  if (name && typeof name === 'object') {
+    version = pick(name, ['version']) ?? version;
+    name = pick(name, ['name', 'vendor', 'command']);
+  }
+  if (!name || typeof name === 'object') return null;
+
+  return version !== undefined && typeof version !== 'object' ? `${name} ${version}` : String(name);
+}
@@ -0,0 +1,41 @@
+import { buildRoutineRows, countConformance, routinesForSpec } from './runtimeApi';
+import { parseResults } from './resultsParser';
+
+test('lists the routines and variants a spec version defines', () => {
+  const names = (spec: string | null) => routinesForSpec(spec).map((r) => r.name);
+  expect(names('2.0')).toContain('acc_copyin');
+  expect(names('2.0')).not.toContain('acc_copyin_async');
+  expect(names('2.5')).toContain('acc_copyout_finalize_async');
+  expect(names('3.1')).not.toContain('acc_wait_any');
+  expect(names(null)).toContain('acc_wait_any');
+});
+
+test('reports each routine variant per language with its conformance', () => {
+  const results = parseResults(JSON.stringify({
+    runs: {
+      'acc_copyin.c': [{ compilation: { result: 0 }, runtime: { result: 0 } }],
+      'acc_copyin.F90': [{ compilation: { result: 0 }, runtime: { result: 0 } }],
+      'acc_copyin_with_len.F90': [{ compilation: { result: 1, errors: 'no len form' } }],
+      'acc_create.c': [{ compilation: { result: 0 }, runtime: { result: 0 } }],
+    },
+  }));
+
+  const rows = buildRoutineRows(results, '2.0');
+  const copyin = rows.find((r) => r.routine.name === 'acc_copyin')!;
+  expect(copyin.cells.C!.status).toBe('pass');
+  expect(copyin.cells.CPP!.status).toBe('missing');
+  expect(copyin.cells.CPP!.inSuite).toBe(true);
+  expect(copyin.cells['F90-len']!.status).toBe('compile-fail');
+  expect(copyin.conformance).toBe('fail');
+  expect(copyin.calledIn).toBeGreaterThan(0);
+
+  expect(rows.find((r) => r.routine.name === 'acc_create')!.conformance).toBe('pass');
+  expect(rows.find((r) => r.routine.name === 'acc_on_device')!.conformance).toBe('not-run');
+  const presentOrCopyin = rows.find((r) => r.routine.name === 'acc_present_or_copyin')!;
+  expect(presentOrCopyin.conformance).toBe('untested');
+  expect(presentOrCopyin.cells['F90-len']).toBeNull();
+
+  const counts = countConformance(rows);
+  expect(counts.pass).toBe(1);
+  expect(counts.fail).toBe(1);
+});
@@ -0,0 +1,164 @@
+import { NormalizedRun, TestResult } from './resultsParser';
+import { LanguageVariant, variantOf } from './languageConsistency';
+import { buildUsageIndex } from './directiveUsage';
+import { parseSpecVersion, testManifest } from './testIndex';
+
+export interface RuntimeRoutine {
+  family: string;
+  name: string;
+  // "base", "async", "finalize" or "finalize async".
+  variant: string;
+  since: string;
+  // Whether Fortran also has the (a, len) form, tested in <name>_with_len.F90.
+  withLen: boolean;
+}
+
+interface RoutineFamily {
+  family: string;
+  since: string;
+  // Variant suffix -> the version that added it.
+  variants?: Record<string, string>;
+  withLen?: boolean;
+}
+
+// The device-independent routines of the spec's runtime library chapter.
+const FAMILIES: RoutineFamily[] = [
+  { family: 'acc_get_num_devices', since: '1.0' },
+  { family: 'acc_set_device_type', since: '1.0' },
+  { family: 'acc_get_device_type', since: '1.0' },
+  { family: 'acc_set_device_num', since: '1.0' },
+  { family: 'acc_get_device_num', since: '1.0' },
+  { family: 'acc_get_property', since: '2.6', variants: { string: '2.6' } },
+  { family: 'acc_init', since: '1.0', variants: { device: '3.2' } },
+  { family: 'acc_shutdown', since: '1.0', variants: { device: '3.2' } },
+  { family: 'acc_get_default_async', since: '2.5' },
+  { family: 'acc_set_default_async', since: '2.5' },
+  { family: 'acc_on_device', since: '1.0' },
+  { family: 'acc_async_test', since: '1.0', variants: { all: '1.0' } },
+  { family: 'acc_wait', since: '2.0', variants: { async: '2.0', all: '2.0', all_async: '2.0', any: '3.2' } },
+  { family: 'acc_malloc', since: '1.0' },
+  { family: 'acc_free', since: '1.0' },
+  { family: 'acc_copyin', since: '2.0', variants: { async: '2.5' }, withLen: true },
+  { family: 'acc_present_or_copyin', since: '2.0' },
+  { family: 'acc_create', since: '2.0', variants: { async: '2.5' }, withLen: true },
+  { family: 'acc_present_or_create', since: '2.0' },
+  { family: 'acc_copyout', since: '2.0', variants: { async: '2.5', finalize: '2.5', finalize_async: '2.5' }, withLen: true },
+  { family: 'acc_delete', since: '2.0', variants: { async: '2.5', finalize: '2.5', finalize_async: '2.5' }, withLen: true },
+  { family: 'acc_update_device', since: '2.0', variants: { async: '2.5' }, withLen: true },
+  { family: 'acc_update_self', since: '2.0', variants: { async: '2.5' }, withLen: true },
+  { family: 'acc_map_data', since: '2.0' },
+  { family: 'acc_unmap_data', since: '2.0' },
+  { family: 'acc_deviceptr', since: '2.0' },
+  { family: 'acc_hostptr', since: '2.0' },
+  { family: 'acc_is_present', since: '2.0', withLen: true },
+  { family: 'acc_memcpy_to_device', since: '2.0', variants: { async: '2.5' } },
+  { family: 'acc_memcpy_from_device', since: '2.0', variants: { async: '2.5' } },
+  { family: 'acc_memcpy_device', since: '2.6', variants: { async: '2.6' } },
+  { family: 'acc_memcpy_d2d', since: '3.0', variants: { async: '3.0' } },
+  { family: 'acc_attach', since: '2.6', variants: { async: '2.6' } },
+  { family: 'acc_detach', since: '2.6', variants: { async: '2.6', finalize: '2.6', finalize_async: '2.6' } },
+];
+
+export const RUNTIME_ROUTINES: RuntimeRoutine[] = FAMILIES.flatMap(({ family, since, variants = {}, withLen = false }) => [
+  { family, name: family, variant: 'base', since, withLen },
+  ...Object.keys(variants).map((suffix) => ({
+    family,
+    name: `${family}_${suffix}`,
+    variant: suffix.replace(/_/g, ' '),
+    since: variants[suffix],
+    // The Fortran len forms exist for the data routines, not for their
+    // all/any/device companions.
+    withLen: withLen && /^(async|finalize|finalize_async)$/.test(suffix),
+  })),
+]);
+
+export type ApiColumn = 'C' | 'CPP' | 'F90' | 'F90-len';
+
+export const API_COLUMNS: ApiColumn[] = ['C', 'CPP', 'F90', 'F90-len'];
+
+export const API_COLUMN_LABELS: Record<ApiColumn, string> = {
+  C: 'C',
+  CPP: 'C++',
+  F90: 'Fortran',
+  'F90-len': 'Fortran (a, len)',
+};
+
+export type RoutineConformance = 'pass' | 'fail' | 'not-run' | 'untested';
+
+export const CONFORMANCE_LABELS: Record<RoutineConformance, string> = {
+  pass: 'Conforms',
+  fail: 'Fails',
+  'not-run': 'Not run',
+  untested: 'No test',
+};
+
+export interface RoutineRow {
+  routine: RuntimeRoutine;
+  // One variant per column; null where the form does not exist. A missing
+  // variant with inSuite false means the suite has no test for it.
+  cells: Record<ApiColumn, LanguageVariant | null>;
+  conformance: RoutineConformance;
+  // Sub-tests elsewhere in the suite that call the routine.
+  calledIn: number;
+}
+
+const FILE_NAMES: Record<ApiColumn, (name: string) => string> = {
+  C: (name) => `${name}.c`,
+  CPP: (name) => `${name}.cpp`,
+  F90: (name) => `${name}.F90`,
+  'F90-len': (name) => `${name}_with_len.F90`,
+};
+
+// The routines the spec defines in `targetSpec`, or in any version when it
+// is null.
+export function routinesForSpec(targetSpec: string | null): RuntimeRoutine[] {
+  if (!targetSpec) return RUNTIME_ROUTINES;
+  const target = parseSpecVersion(targetSpec);
+  return RUNTIME_ROUTINES.filter((routine) => parseSpecVersion(routine.since) <= target);
+}
+
+// Finds each routine's dedicated test per language (acc_copyin.c, ...,
+// acc_copyin_with_len.F90) in the results. A routine conforms when every
+// variant that ran passed, and fails when any of them failed.
+export function buildRoutineRows(results: NormalizedRun, targetSpec: string | null): RoutineRow[] {
+  const byFile = new Map<string, TestResult>();
+  for (const test of results.tests) {
+    byFile.set(test.name.split(/[\\/]/).pop() || test.name, test);
+  }
+  const calls = new Map(buildUsageIndex('apiCalls').map((entry) => [entry.name, entry.sites]));
+
+  return routinesForSpec(targetSpec).map((routine) => {
+    const cells = {} as Record<ApiColumn, LanguageVariant | null>;
+    for (const column of API_COLUMNS) {
+      if (column === 'F90-len' && !routine.withLen) {
+        cells[column] = null;
+        continue;
+      }
+      const name = FILE_NAMES[column](routine.name);
+      const test = byFile.get(name);
+      cells[column] = test ? variantOf(test) : { name, status: 'missing', reason: '', inSuite: name in testManifest };
+    }
+
+    const variants = API_COLUMNS.map((column) => cells[column]).filter((v): v is LanguageVariant => v !== null);
+    const conformance: RoutineConformance =
+      variants.some((v) => v.status === 'compile-fail' || v.status === 'runtime-fail') ? 'fail'
+      : variants.some((v) => v.status === 'pass') ? 'pass'
+      : variants.some((v) => v.inSuite) ? 'not-run'
+      : 'untested';
+
+    const dedicated = new Set(variants.map((v) => v.name));
+    const sites = calls.get(routine.name) || [];
+    return {
+      routine,
+      cells,
+      conformance,
+      calledIn: sites.filter((site) => !dedicated.has(site.fileName)).length,
+    };
+  });
+}
+
+export function countConformance(rows: RoutineRow[]): Record<RoutineConformance, number> {
+  const counts = { pass: 0, fail: 0, 'not-run': 0, untested: 0 };
+  for (const row of rows) counts[row.conformance]++;
+  return counts;
+}
@@ -0,0 +1,74 @@
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  deleteSession, formatBytes, getCurrentSessionId, listSessions, loadSession, renameSession, saveSession,
+  setCurrentSessionId, updateSession,
+} from './sessions';
+
+test('formats storage sizes', () => {
+  expect(formatBytes(512)).toBe('512 B');
+  expect(formatBytes(1536)).toBe('1.5 KB');
+  expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+});
+
+test('remembers the session shown on the summary page', () => {
+  setCurrentSessionId('abc');
+  expect(getCurrentSessionId()).toBe('abc');
+  setCurrentSessionId(null);
+  expect(getCurrentSessionId()).toBeNull();
+});
+
+test('reports a missing session store instead of failing silently', () => {
+  // jsdom has no IndexedDB, like some private browsing modes.
+  return expect(listSessions()).rejects.toThrow(/IndexedDB/);
+});
+
+describe('with IndexedDB', () => {
+  beforeEach(() => {
+    (global as any).indexedDB = new IDBFactory();
+  });
+  afterEach(() => {
+    delete (global as any).indexedDB;
+  });
+
+  test('saves, lists, loads, updates, renames and deletes sessions', () => {
+    const details = { testCount: 2, compiler: 'nvc 24.5' };
+    return saveSession('nightly', '{"runs":{}}', details)
+      .then((info) => {
+        expect(info).toMatchObject({ name: 'nightly', size: 11, testCount: 2, compiler: 'nvc 24.5' });
+        return listSessions()
+          .then((sessions) => expect(sessions.map((s) => s.id)).toEqual([info.id]))
+          .then(() => loadSession(info.id))
+          .then((stored) => expect(stored).toEqual({ info, rawJson: '{"runs":{}}' }))
+          .then(() => updateSession(info.id, '{"runs":{"a.c":[]}}', { testCount: 3, compiler: null }))
+          .then((updated) => expect(updated).toMatchObject({ id: info.id, name: 'nightly', testCount: 3, size: 19 }))
+          .then(() => renameSession(info.id, 'nightly (nvc)'))
+          .then(() => loadSession(info.id))
+          .then((stored) => {
+            expect(stored!.info.name).toBe('nightly (nvc)');
+            expect(stored!.rawJson).toBe('{"runs":{"a.c":[]}}');
+            setCurrentSessionId(info.id);
+            return deleteSession(info.id);
+          })
+          .then(() => {
+            expect(getCurrentSessionId()).toBeNull();
+            return Promise.all([listSessions(), loadSession(info.id)]);
+          })
+          .then(([sessions, stored]) => {
+            expect(sessions).toEqual([]);
+            expect(stored).toBeNull();
+          });
+      });
+  });
+
+  test('leaves unknown sessions alone', () => {
+    return Promise.all([
+      loadSession('missing'),
+      updateSession('missing', '{}', { testCount: 0, compiler: null }),
+      renameSession('missing', 'x'),
+    ]).then(([loaded, updated]) => {
+      expect(loaded).toBeNull();
+      expect(updated).toBeNull();
+      return expect(listSessions()).resolves.toEqual([]);
+    });
+  });
+});
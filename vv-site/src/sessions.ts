@@ -0,0 +1,166 @@
+// Loaded result files are kept in IndexedDB as named sessions, so a reload or a
+// link to #/details/<id> can read them again. The listing and the file text
+// live in separate stores so the session picker never reads whole files.
+export interface SessionInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  // Size of the stored file text in bytes.
+  size: number;
+  testCount: number;
+  compiler: string | null;
+}
+
+export interface StorageUsage {
+  // Bytes taken by the stored result files.
+  sessions: number;
+  // The browser's estimate for the whole site, when it gives one.
+  used: number | null;
+  quota: number | null;
+}
+
+const DB_NAME = 'vv-results';
+const DB_VERSION = 1;
+const INFO_STORE = 'sessions';
+const DATA_STORE = 'sessionData';
+const CURRENT_SESSION_KEY = 'currentSession';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser does not provide IndexedDB, so sessions cannot be saved.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(INFO_STORE, { keyPath: 'id' });
+      request.result.createObjectStore(DATA_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs `body` in one transaction over both stores and resolves with the result
+// of the request it returns once the transaction has committed.
+function transaction<T>(
+  mode: IDBTransactionMode,
+  body: (info: IDBObjectStore, data: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  return openDatabase().then((db) => new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction([INFO_STORE, DATA_STORE], mode);
+    const request = body(tx.objectStore(INFO_STORE), tx.objectStore(DATA_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    tx.onerror = tx.onabort = () => {
+      db.close();
+      reject(tx.error || new Error('The session store could not be updated.'));
+    };
+  }));
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function saveSession(
+  name: string,
+  rawJson: string,
+  details: Pick<SessionInfo, 'testCount' | 'compiler'>
+): Promise<SessionInfo> {
+  const info: SessionInfo = {
+    id: createId(),
+    name,
+    createdAt: Date.now(),
+    size: new Blob([rawJson]).size,
+    ...details,
+  };
+  return transaction('readwrite', (infoStore, dataStore) => {
+    infoStore.put(info);
+    dataStore.put(rawJson, info.id);
+  }).then(() => info);
+}
+
+// Replaces the stored file of a session, keeping its name and id.
+export function updateSession(
+  id: string,
+  rawJson: string,
+  details: Pick<SessionInfo, 'testCount' | 'compiler'>
+): Promise<SessionInfo | null> {
+  let updated: SessionInfo | null = null;
+  return transaction('readwrite', (infoStore, dataStore) => {
+    const request = infoStore.get(id);
+    request.onsuccess = () => {
+      if (!request.result) return;
+      updated = { ...request.result, ...details, size: new Blob([rawJson]).size };
+      infoStore.put(updated);
+      dataStore.put(rawJson, id);
+    };
+  }).then(() => updated);
+}
+
+// Newest first.
+export function listSessions(): Promise<SessionInfo[]> {
+  return transaction<SessionInfo[]>('readonly', (info) => info.getAll())
+    .then((sessions) => (sessions || []).sort((a, b) => b.createdAt - a.createdAt));
+}
+
+// Resolves with null when the session was deleted or never existed here.
+export function loadSession(id: string): Promise<{ info: SessionInfo; rawJson: string } | null> {
+  let info: IDBRequest<SessionInfo | undefined> | null = null;
+  return transaction<string | undefined>('readonly', (infoStore, dataStore) => {
+    info = infoStore.get(id);
+    return dataStore.get(id);
+  }).then((rawJson) => {
+    const session = info?.result;
+    return session && typeof rawJson === 'string' ? { info: session, rawJson } : null;
+  });
+}
+
+export function renameSession(id: string, name: string): Promise<void> {
+  return transaction('readwrite', (info) => {
+    const request = info.get(id);
+    request.onsuccess = () => {
+      if (request.result) info.put({ ...request.result, name });
+    };
+  }).then(() => undefined);
+}
+
+export function deleteSession(id: string): Promise<void> {
+  if (getCurrentSessionId() === id) setCurrentSessionId(null);
+  return transaction('readwrite', (info, data) => {
+    info.delete(id);
+    data.delete(id);
+  }).then(() => undefined);
+}
+
+export function getStorageUsage(sessions: SessionInfo[]): Promise<StorageUsage> {
+  const total = sessions.reduce((sum, s) => sum + s.size, 0);
+  const estimate = typeof navigator !== 'undefined' && navigator.storage?.estimate
+    ? navigator.storage.estimate().catch(() => ({} as StorageEstimate))
+    : Promise.resolve({} as StorageEstimate);
+  return estimate.then(({ usage, quota }) => ({ sessions: total, used: usage ?? null, quota: quota ?? null }));
+}
+
+// The session HomePage shows, so a reload reopens it.
+export function getCurrentSessionId(): string | null {
+  return localStorage.getItem(CURRENT_SESSION_KEY);
+}
+
+export function setCurrentSessionId(id: string | null) {
+  if (id) localStorage.setItem(CURRENT_SESSION_KEY, id);
+  else localStorage.removeItem(CURRENT_SESSION_KEY);
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
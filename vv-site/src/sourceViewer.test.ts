@@ -0,0 +1,43 @@
+import { findDiagnosticLines, tokenizeSource } from './sourceViewer';
+
+test('finds the lines compiler diagnostics point at in the test file', () => {
+  const log = [
+    'acc_copyin.c:42:5: error: expected expression',
+    '"acc_copyin.c", line 17: warning: variable "x" was declared but never referenced',
+    'NVC++-S-0155-Invalid clause (tests/acc_copyin.c: 9)',
+    'ftn-1725 ftn: ERROR MAIN, File = acc_copyin.c, Line = 42, Column = 3',
+    'other_acc_copyin.c:99:1: error: not this file',
+  ].join('\n');
+
+  expect(findDiagnosticLines(log, 'Tests/acc_copyin.c')).toEqual([9, 17, 42]);
+  expect(findDiagnosticLines('no locations here', 'acc_copyin.c')).toEqual([]);
+});
+
+test('highlights OpenACC directives, comments and API calls in C', () => {
+  const lines = tokenizeSource([
+    '#pragma acc parallel loop \\',
+    '    copy(a[0:n])',
+    'int x = 1; /* starts',
+    'ends */ acc_copyin(a, n); // done',
+    'char *s = "/* not a comment";',
+  ].join('\n'), 'C');
+
+  expect(lines[0]).toEqual([{ text: '#pragma acc parallel loop \\', kind: 'directive' }]);
+  expect(lines[1][0].kind).toBe('directive');
+  expect(lines[2].find((t) => t.text === 'int')?.kind).toBe('keyword');
+  expect(lines[2][lines[2].length - 1]).toEqual({ text: '/* starts', kind: 'comment' });
+  expect(lines[3][0]).toEqual({ text: 'ends */', kind: 'comment' });
+  expect(lines[3].find((t) => t.text === 'acc_copyin')?.kind).toBe('api');
+  expect(lines[3][lines[3].length - 1]).toEqual({ text: '// done', kind: 'comment' });
+  expect(lines[4].some((t) => t.kind === 'comment')).toBe(false);
+});
+
+test('highlights !$acc sentinels and case-insensitive keywords in Fortran', () => {
+  const lines = tokenizeSource('  !$acc data copy(c(1:N))\n  CALL acc_copyin(a) ! copy in\n#ifndef T1', 'F90');
+
+  expect(lines[0]).toEqual([{ text: '  !$acc data copy(c(1:N))', kind: 'directive' }]);
+  expect(lines[1].find((t) => t.text === 'CALL')?.kind).toBe('keyword');
+  expect(lines[1].find((t) => t.text === 'acc_copyin')?.kind).toBe('api');
+  expect(lines[1][lines[1].length - 1]).toEqual({ text: '! copy in', kind: 'comment' });
+  expect(lines[2][0].kind).toBe('preprocessor');
+});
@@ -0,0 +1,162 @@
+import { Language } from './resultsParser';
+
+export type TokenKind = 'plain' | 'keyword' | 'comment' | 'string' | 'number' | 'preprocessor' | 'directive' | 'api';
+
+export interface SourceToken {
+  text: string;
+  kind: TokenKind;
+}
+
+const C_KEYWORDS = new Set([
+  'auto', 'bool', 'break', 'case', 'char', 'const', 'continue', 'default', 'delete', 'do', 'double', 'else',
+  'enum', 'extern', 'false', 'float', 'for', 'goto', 'if', 'inline', 'int', 'long', 'namespace', 'new',
+  'nullptr', 'private', 'public', 'register', 'return', 'short', 'signed', 'sizeof', 'static', 'struct',
+  'switch', 'template', 'this', 'true', 'typedef', 'typename', 'union', 'unsigned', 'using', 'void',
+  'volatile', 'while', 'class', 'size_t', 'real_t',
+]);
+
+const FORTRAN_KEYWORDS = new Set([
+  'allocatable', 'allocate', 'call', 'character', 'close', 'contains', 'deallocate', 'dimension', 'do', 'else',
+  'elseif', 'end', 'enddo', 'endif', 'exit', 'false', 'function', 'if', 'implicit', 'in', 'include', 'inout',
+  'integer', 'intent', 'interface', 'logical', 'module', 'none', 'open', 'out', 'parameter', 'pointer',
+  'print', 'program', 'real', 'return', 'subroutine', 'target', 'then', 'true', 'type', 'use', 'while', 'write',
+]);
+
+const C_TOKEN = /(\/\/.*$)|(\/\*)|("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')|(\b\d+(?:\.\d*)?(?:[eE][+-]?\d+)?[fFlLuU]*\b)|([A-Za-z_]\w*)/g;
+const FORTRAN_TOKEN = /(!.*$)|("[^"]*"|'[^']*')|(\b\d+(?:\.\d*)?(?:[eEdD][+-]?\d+)?(?:_\w+)?\b)|([A-Za-z_]\w*)/g;
+
+const C_DIRECTIVE = /^\s*#\s*pragma\s+acc\b/;
+const FORTRAN_DIRECTIVE = /^\s*!\$acc\b/i;
+const PREPROCESSOR = /^\s*#/;
+
+function wordKind(word: string, keywords: Set<string>, caseInsensitive: boolean): TokenKind {
+  const key = caseInsensitive ? word.toLowerCase() : word;
+  if (keywords.has(key)) return 'keyword';
+  if (/^acc_/i.test(word)) return 'api';
+  return 'plain';
+}
+
+// Splits one line with a global token regex; unmatched text stays plain.
+function scanLine(line: string, pattern: RegExp, classify: (match: RegExpExecArray) => TokenKind): SourceToken[] {
+  const tokens: SourceToken[] = [];
+  let last = 0;
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line))) {
+    if (match.index > last) tokens.push({ text: line.slice(last, match.index), kind: 'plain' });
+    tokens.push({ text: match[0], kind: classify(match) });
+    last = match.index + match[0].length;
+  }
+  if (last < line.length) tokens.push({ text: line.slice(last), kind: 'plain' });
+  return tokens;
+}
+
+// Index of the first match whose given capture group took part, or -1.
+function firstMatchIndex(line: string, pattern: RegExp, group: number): number {
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line))) {
+    if (match[group]) return match.index;
+  }
+  return -1;
+}
+
+function classifyC(match: RegExpExecArray): TokenKind {
+  if (match[1] || match[2]) return 'comment';
+  if (match[3]) return 'string';
+  if (match[4]) return 'number';
+  return wordKind(match[0], C_KEYWORDS, false);
+}
+
+function tokenizeC(lines: string[]): SourceToken[][] {
+  let inComment = false;
+  let continuedKind: TokenKind | null = null;
+
+  return lines.map((line) => {
+    // A directive or macro ending in a backslash carries on to the next line.
+    if (continuedKind || (!inComment && PREPROCESSOR.test(line))) {
+      const kind = continuedKind || (C_DIRECTIVE.test(line) ? 'directive' : 'preprocessor');
+      continuedKind = /\\\s*$/.test(line) ? kind : null;
+      return [{ text: line, kind }];
+    }
+
+    const tokens: SourceToken[] = [];
+    let rest = line;
+    let searchFrom = 0;
+    while (rest) {
+      if (inComment) {
+        const end = rest.indexOf('*/', searchFrom);
+        if (end < 0) {
+          tokens.push({ text: rest, kind: 'comment' });
+          break;
+        }
+        tokens.push({ text: rest.slice(0, end + 2), kind: 'comment' });
+        rest = rest.slice(end + 2);
+        inComment = false;
+        searchFrom = 0;
+        continue;
+      }
+
+      // Only a "/*" outside strings and line comments opens a block comment.
+      const opening = firstMatchIndex(rest, C_TOKEN, 2);
+      if (opening < 0) {
+        tokens.push(...scanLine(rest, C_TOKEN, classifyC));
+        break;
+      }
+      tokens.push(...scanLine(rest.slice(0, opening), C_TOKEN, classifyC));
+      inComment = true;
+      rest = rest.slice(opening);
+      searchFrom = 2;
+    }
+    return tokens;
+  });
+}
+
+function tokenizeFortran(lines: string[]): SourceToken[][] {
+  return lines.map((line) => {
+    if (FORTRAN_DIRECTIVE.test(line)) return [{ text: line, kind: 'directive' }];
+    if (PREPROCESSOR.test(line)) return [{ text: line, kind: 'preprocessor' }];
+    return scanLine(line, FORTRAN_TOKEN, (m) =>
+      m[1] ? 'comment' : m[2] ? 'string' : m[3] ? 'number' : wordKind(m[0], FORTRAN_KEYWORDS, true)
+    );
+  });
+}
+
+// Highlights a test source line by line. OpenACC directives (#pragma acc and
+// !$acc sentinels) are marked as a whole line so they stand out from the code.
+export function tokenizeSource(source: string, language: Language | null): SourceToken[][] {
+  const lines = source.split(/\r?\n/);
+  return language === 'F90' ? tokenizeFortran(lines) : tokenizeC(lines);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Line numbers a compiler log points at in the given file. Covers the GCC and
+// Clang "file:line:col" form, NVHPC's "file", line N and (file: N), and Cray's
+// "File = file, Line = N".
+export function findDiagnosticLines(log: string, testName: string): number[] {
+  const baseName = testName.split(/[\\/]/).pop() || testName;
+  const pattern = new RegExp(
+    `(?:^|[^\\w.])${escapeRegExp(baseName)}(?::\\s*|",\\s*line\\s+|,\\s*line\\s*=\\s*)(\\d+)`,
+    'gim'
+  );
+  const lines = new Set<number>();
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(log))) {
+    lines.add(Number(match[1]));
+  }
+  return Array.from(lines).sort((a, b) => a - b);
+}
+
+// Test sources are copied to public/Tests by scripts/index-tests.js. The dev
+// server answers unknown paths with index.html, so HTML responses count as missing.
+export function fetchTestSource(testName: string): Promise<string | null> {
+  const baseName = testName.split(/[\\/]/).pop() || testName;
+  return fetch(`${process.env.PUBLIC_URL}/Tests/${encodeURIComponent(baseName)}`)
+    .then((response) =>
+      response.ok && !(response.headers.get('content-type') || '').includes('text/html') ? response.text() : null
+    )
+    .catch(() => null);
+}
@@ -0,0 +1,54 @@
+import { conformance, summarizeForSpec } from './specConformance';
+import { parseResults } from './resultsParser';
+import { getSpecVersions } from './testIndex';
+
+const pass = { compilation: { result: 0 }, runtime: { result: 0 } };
+const fail = { compilation: { result: 0 }, runtime: { result: 1, errors: 'Test failed' } };
+
+const results = parseResults(JSON.stringify({
+  runs: {
+    'acc_copyin.c': [pass], // V:2.0-2.7 and V:2.5-2.7
+    'acc_init_device.c': [fail], // V:3.2-3.3
+    'my_local_test.c': [pass], // not in the bundled sources
+  },
+}));
+
+test('summarises only tests whose version range covers the target spec', () => {
+  const summary = summarizeForSpec(results, 'runtime', '3.2');
+
+  expect(summary.targetSpec).toBe('3.2');
+  expect(summary.C).toEqual({ total: 1, pass: 0, fail: 1 });
+  expect(summary.outOfSpec).toEqual([
+    { name: 'acc_copyin.c', versions: ['2.0-2.7', '2.5-2.7'] },
+    { name: 'my_local_test.c', versions: [] },
+  ]);
+  expect(conformance(summary.C)).toBe(0);
+});
+
+test('judges a test by its sub-tests that cover the target spec', () => {
+  // kernels_copyout.c: T1 is V:1.0-2.7, T2 is V:2.5-2.7; bit 1 of the return
+  // code is T2.
+  const t2Fails = parseResults(JSON.stringify({
+    runs: { 'kernels_copyout.c': [{ compilation: { result: 0 }, runtime: { result: 2, errors: 'Test failed' } }] },
+  }));
+
+  expect(summarizeForSpec(t2Fails, 'runtime', '2.0').C).toEqual({ total: 1, pass: 1, fail: 0 });
+  expect(summarizeForSpec(t2Fails, 'runtime', '2.0').failures).toEqual([]);
+  expect(summarizeForSpec(t2Fails, 'runtime', '2.5').C).toEqual({ total: 1, pass: 0, fail: 1 });
+});
+
+test('keeps every test when no target spec is chosen', () => {
+  const summary = summarizeForSpec(results, 'runtime', null);
+
+  expect(summary.targetSpec).toBeNull();
+  expect(summary.C.total).toBe(3);
+  expect(summary.outOfSpec).toEqual([]);
+});
+
+test('lists the spec versions named in the manifest in order', () => {
+  const versions = getSpecVersions();
+
+  expect(versions[0]).toBe('1.0');
+  expect(versions).toContain('3.2');
+  expect(versions.indexOf('2.7')).toBeLessThan(versions.indexOf('3.0'));
+});
@@ -0,0 +1,43 @@
+import { Mode, NormalizedRun, Summary, TestResult, isRuntimeFailure, summarizeResults } from './resultsParser';
+import { getSubtestResults, getTestInfo, subtestCoversVersion } from './testIndex';
+
+// A test that fails only in sub-tests outside `targetSpec` passes for it. A
+// sub-test whose status the return code does not give leaves the whole-test
+// verdict standing, as does a compile failure.
+function judgeInSpec(test: TestResult, targetSpec: string): TestResult {
+  if (test.compiler.result !== 0 || !isRuntimeFailure(test.runtime.result)) return test;
+  const inSpec = getSubtestResults(test).filter((s) => subtestCoversVersion(s, targetSpec));
+  if (inSpec.some((s) => s.status !== 'pass')) return test;
+  return { ...test, runtime: { ...test.runtime, result: 0, reason: 'Pass' }, failure: null };
+}
+
+// Summarises only the tests with at least one sub-test whose V: range covers
+// `targetSpec`, judged by those sub-tests. The rest are reported in
+// `outOfSpec` with their ranges, or with no ranges when the test has no
+// tagged source.
+export function summarizeForSpec(results: NormalizedRun, mode: Mode, targetSpec: string | null): Summary {
+  if (!targetSpec) return summarizeResults(results, mode);
+
+  const inSpec: TestResult[] = [];
+  const outOfSpec: Summary['outOfSpec'] = [];
+
+  for (const test of results.tests) {
+    const info = getTestInfo(test.name);
+    if (info && info.subtests.some((s) => subtestCoversVersion(s, targetSpec))) {
+      inSpec.push(judgeInSpec(test, targetSpec));
+      continue;
+    }
+    const versions = info ? Array.from(new Set(info.subtests.map((s) => s.version || '?'))) : [];
+    outOfSpec.push({ name: test.name, versions });
+  }
+
+  return {
+    ...summarizeResults({ ...results, tests: inSpec }, mode),
+    targetSpec,
+    outOfSpec,
+  };
+}
+
+export function conformance(counts: { total: number; pass: number }): number | null {
+  return counts.total === 0 ? null : counts.pass / counts.total;
+}
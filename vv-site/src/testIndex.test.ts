@@ -0,0 +1,37 @@
+import { getSubtestResults, getTestInfo } from './testIndex';
+import { parseResults } from './resultsParser';
+
+function resultsFor(name: string, runs: any[]) {
+  return parseResults(JSON.stringify({ runs: { [name]: runs } })).tests[0];
+}
+
+test('indexes the tagged sub-tests of a bundled source file', () => {
+  const info = getTestInfo('acc_copyin.c');
+
+  expect(info?.language).toBe('C');
+  expect(info?.subtests.map((s) => s.id)).toEqual(['T1', 'T2', 'T3', 'T4', 'T5', 'T6', 'T7']);
+  expect(info?.subtests[0].tags).toEqual(['runtime', 'data', 'executable-data', 'construct-independent']);
+  expect(info?.subtests[0].version).toBe('2.0-2.7');
+  expect(getTestInfo('Tests/acc_copyin.c')).toBe(info);
+});
+
+test('maps the runtime failcode bits onto sub-tests', () => {
+  const test = resultsFor('acc_copyin.c', [
+    { compilation: { result: 0 }, runtime: { result: 2, errors: 'Test failed' } },
+  ]);
+
+  const statuses = getSubtestResults(test).map((s) => [s.id, s.status]);
+
+  expect(statuses).toEqual([
+    ['T1', 'pass'], ['T2', 'fail'], ['T3', 'pass'], ['T4', 'pass'],
+    ['T5', 'pass'], ['T6', 'pass'], ['T7', 'pass'],
+  ]);
+});
+
+test('marks every sub-test on compile failures and unmappable return codes', () => {
+  const compileFail = resultsFor('acc_copyin.F90', [{ compilation: { result: 1, errors: 'error' } }]);
+  const crash = resultsFor('acc_copyin.F90', [{ compilation: { result: 0 }, runtime: { result: 139 } }]);
+
+  expect(new Set(getSubtestResults(compileFail).map((s) => s.status))).toEqual(new Set(['compile-fail']));
+  expect(new Set(getSubtestResults(crash).map((s) => s.status))).toEqual(new Set(['unknown']));
+});
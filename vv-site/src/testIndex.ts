@@ -0,0 +1,98 @@
+import manifestJson from './testManifest.json';
+import { Language, TestResult, compilerSucceeded, runtimeSucceeded } from './resultsParser';
+import { getRuntimeStatus } from './errorParser';
+
+// Generated by scripts/index-tests.js from the tag lines in src/Tests.
+export interface SubtestInfo {
+  id: string;
+  tags: string[];
+  version: string | null;
+  line: number;
+  endLine: number;
+  // OpenACC usage found in the sub-test's block and the file-level code
+  // around it, e.g. "parallel loop", "copyin", "acc_copyin".
+  directives: string[];
+  clauses: string[];
+  apiCalls: string[];
+}
+
+export interface TestFileInfo {
+  language: Language;
+  subtests: SubtestInfo[];
+}
+
+export type SubtestStatus = 'pass' | 'fail' | 'compile-fail' | 'unknown';
+
+export interface SubtestResult extends SubtestInfo {
+  status: SubtestStatus;
+  reason: string;
+}
+
+export const testManifest = manifestJson as { [fileName: string]: TestFileInfo };
+
+// Result files may name tests with a directory prefix (e.g. "Tests/acc_copyin.c").
+export function getTestInfo(testName: string): TestFileInfo | undefined {
+  const baseName = testName.split(/[\\/]/).pop() || testName;
+  return testManifest[baseName];
+}
+
+// The test mains add 2^(n-1) to their exit code when Tn fails, so the runtime
+// result of each run is a bitmask over the sub-tests.
+function getRunSubtestStatus(run: any, subtest: SubtestInfo, subtestCount: number): { status: SubtestStatus; reason: string } {
+  if (!compilerSucceeded(run)) {
+    return { status: 'compile-fail', reason: 'Not executed due to compiler failure' };
+  }
+  if (runtimeSucceeded(run)) {
+    return { status: 'pass', reason: 'Pass' };
+  }
+
+  const result = getRuntimeStatus(run).result;
+  const bit = Number(subtest.id.slice(1)) - 1;
+  if (typeof result !== 'number' || result < 0 || result >= 2 ** subtestCount || bit >= 8) {
+    return { status: 'unknown', reason: `Return code ${result} does not map to sub-tests` };
+  }
+
+  return (result >> bit) & 1
+    ? { status: 'fail', reason: `Failcode bit ${bit} set (return code ${result})` }
+    : { status: 'pass', reason: 'Pass' };
+}
+
+// Breaks a test down into its tagged sub-tests. The first run that does not
+// pass a sub-test decides its status, as in getTestStatus.
+export function getSubtestResults(test: TestResult): SubtestResult[] {
+  const info = getTestInfo(test.name);
+  if (!info) return [];
+
+  const subtestCount = Math.max(...info.subtests.map((s) => Number(s.id.slice(1))));
+
+  return info.subtests.map((subtest) => {
+    const statuses = test.runs.map((run) => getRunSubtestStatus(run, subtest, subtestCount));
+    const decisive = statuses.find((s) => s.status !== 'pass') || { status: 'pass' as SubtestStatus, reason: 'Pass' };
+    return { ...subtest, ...decisive };
+  });
+}
+
+// "3.2" -> 302, so versions compare numerically.
+export function parseSpecVersion(version: string): number {
+  const [major, minor] = version.split('.').map(Number);
+  return major * 100 + (minor || 0);
+}
+
+// A tag of "2.0-2.7" covers 2.0 through 2.7; a bare "3.3" covers only 3.3.
+export function subtestCoversVersion(subtest: SubtestInfo, target: string): boolean {
+  if (!subtest.version) return false;
+  const [from, to = from] = subtest.version.split('-');
+  const value = parseSpecVersion(target);
+  return parseSpecVersion(from) <= value && value <= parseSpecVersion(to);
+}
+
+// Every spec version named as a range endpoint in the manifest, oldest first.
+export function getSpecVersions(): string[] {
+  const versions = new Set<string>();
+  for (const info of Object.values(testManifest)) {
+    for (const subtest of info.subtests) {
+      subtest.version?.split('-').forEach((v) => versions.add(v));
+    }
+  }
+  return Array.from(versions).sort((a, b) => parseSpecVersion(a) - parseSpecVersion(b));
+}
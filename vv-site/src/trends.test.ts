@@ -0,0 +1,63 @@
+import { buildFlipHistory, buildTestHistory, buildTrendData, getRunTimestamp, orderSeries } from './trends';
+import { parseResults } from './resultsParser';
+
+const pass = { compilation: { result: 0 }, runtime: { result: 0 } };
+const fail = { compilation: { result: 0 }, runtime: { result: 1 } };
+
+function entry(fileName: string, runs: object, configuration?: object) {
+  return { fileName, results: parseResults(JSON.stringify({ testsuite_configuration: configuration, runs })) };
+}
+
+test('orders by configuration timestamp when every run has one', () => {
+  const ordered = orderSeries([
+    entry('b.json', {}, { date: '2025-03-02' }),
+    entry('a.json', {}, { timestamp: 1740787200 }), // 2025-03-01, epoch seconds
+  ]);
+
+  expect(ordered.map((e) => e.fileName)).toEqual(['a.json', 'b.json']);
+  expect(getRunTimestamp({ compiler: 'nvc' })).toBeNull();
+  // A duration is no date, in seconds or as text.
+  expect(getRunTimestamp({ time: 3600 })).toBeNull();
+  expect(getRunTimestamp({ end_time: '12.5' })).toBeNull();
+  expect(getRunTimestamp({ time: 3600, date: '2025-03-01' })).toBe(Date.parse('2025-03-01'));
+});
+
+test('falls back to numeric-aware file name order', () => {
+  const ordered = orderSeries([
+    entry('nightly-10.json', {}, { date: '2025-01-01' }),
+    entry('nightly-9.json', {}),
+  ]);
+
+  expect(ordered.map((e) => e.fileName)).toEqual(['nightly-9.json', 'nightly-10.json']);
+});
+
+test('charts pass rate per language and flags tests that flip back and forth', () => {
+  const series = orderSeries([
+    entry('1.json', { 'a.c': [pass], 'b.c': [pass], 'c.c': [fail] }),
+    entry('2.json', { 'a.c': [fail], 'b.c': [fail], 'c.c': [fail] }),
+    entry('3.json', { 'a.c': [pass], 'b.c': [fail] }),
+  ]);
+
+  expect(buildTrendData(series, 'runtime').map((p) => p.C)).toEqual([66.7, 0, 50]);
+
+  const histories = buildFlipHistory(series);
+  const byName = Object.fromEntries(histories.map((h) => [h.name, h]));
+
+  expect(byName['a.c']).toMatchObject({ outcomes: [true, false, true], flips: 2, flaky: true });
+  expect(byName['b.c']).toMatchObject({ flips: 1, flaky: false });
+  expect(byName['c.c'].outcomes).toEqual([false, false, null]);
+});
+
+test('follows one test across stored runs', () => {
+  const stored = (id: string, savedAt: number, runs: object, configuration?: object) =>
+    ({ id, label: `${id}.json`, savedAt, results: entry(`${id}.json`, runs, configuration).results });
+
+  const history = buildTestHistory([
+    stored('late', Date.parse('2025-03-05'), { 'a.c': [fail] }),
+    stored('dated', Date.parse('2025-03-09'), { 'a.c': [pass] }, { date: '2025-03-01' }),
+    stored('other', Date.parse('2025-03-07'), { 'b.c': [pass] }),
+  ], 'a.c');
+
+  expect(history.map((h) => h.id)).toEqual(['dated', 'late', 'other']);
+  expect(history.map((h) => h.outcome && h.outcome.passed)).toEqual([true, false, null]);
+});
@@ -0,0 +1,141 @@
+import { LANGUAGES, Mode, NormalizedRun, summarizeResults } from './resultsParser';
+import { TestOutcome, getTestOutcome } from './comparison';
+
+export interface SeriesEntry {
+  fileName: string;
+  results: NormalizedRun;
+}
+
+export interface OrderedEntry extends SeriesEntry {
+  timestamp: number | null;
+}
+
+// testsuite_configuration keys that may hold when the run happened.
+const TIMESTAMP_KEYS = ['timestamp', 'date', 'datetime', 'start_time', 'run_date', 'time', 'end_time'];
+
+// Values outside these dates are durations or counters rather than when the
+// run happened, e.g. a `time` of 3600 seconds.
+const EARLIEST_RUN = Date.UTC(2000, 0, 1);
+const LATEST_RUN = Date.UTC(2100, 0, 1);
+
+// Reads a run time from the configuration block. Numbers are taken as epoch
+// seconds when they are too small to be milliseconds; strings must name a
+// four-digit year. Either must fall between 2000 and 2100.
+export function getRunTimestamp(configuration: any): number | null {
+  if (!configuration || typeof configuration !== 'object') return null;
+
+  for (const key of TIMESTAMP_KEYS) {
+    const value = configuration[key];
+    let time = NaN;
+    if (typeof value === 'number' && isFinite(value)) {
+      time = value < 1e12 ? value * 1000 : value;
+    } else if (typeof value === 'string' && /\b\d{4}\b/.test(value)) {
+      time = Date.parse(value);
+    }
+    if (time >= EARLIEST_RUN && time < LATEST_RUN) return time;
+  }
+  return null;
+}
+
+// Orders runs by configuration timestamp when every run has one, otherwise by
+// file name with numeric runs compared as numbers (nightly-9 before nightly-10).
+export function orderSeries(entries: SeriesEntry[]): OrderedEntry[] {
+  const withTime = entries.map((entry) => ({ ...entry, timestamp: getRunTimestamp(entry.results.configuration) }));
+  const allTimed = withTime.every((entry) => entry.timestamp !== null);
+
+  return withTime.sort((a, b) =>
+    allTimed
+      ? (a.timestamp as number) - (b.timestamp as number)
+      : a.fileName.localeCompare(b.fileName, undefined, { numeric: true })
+  );
+}
+
+export function seriesLabel(entry: OrderedEntry): string {
+  return entry.timestamp !== null ? new Date(entry.timestamp).toISOString().slice(0, 10) : entry.fileName;
+}
+
+export interface TrendPoint {
+  label: string;
+  // Pass rate in percent per language, keyed by language (C, CPP, F90).
+  [language: string]: string | number | null;
+}
+
+export function buildTrendData(series: OrderedEntry[], mode: Mode): TrendPoint[] {
+  return series.map((entry) => {
+    const summary = summarizeResults(entry.results, mode);
+    const point: TrendPoint = { label: seriesLabel(entry) };
+    for (const lang of LANGUAGES) {
+      const { total, pass } = summary[lang];
+      point[lang] = total === 0 ? null : Math.round((pass / total) * 1000) / 10;
+    }
+    return point;
+  });
+}
+
+export interface FlipHistory {
+  name: string;
+  // One entry per run: true for pass, false for fail, null when the test is absent.
+  outcomes: (boolean | null)[];
+  flips: number;
+  flaky: boolean;
+}
+
+// A test is flaky when its outcome changes direction more than once across the
+// series (pass -> fail -> pass or fail -> pass -> fail); one change is a plain
+// regression or fix.
+export function buildFlipHistory(series: OrderedEntry[]): FlipHistory[] {
+  const histories = new Map<string, (boolean | null)[]>();
+
+  series.forEach((entry, index) => {
+    for (const test of entry.results.tests) {
+      let outcomes = histories.get(test.name);
+      if (!outcomes) {
+        outcomes = new Array(series.length).fill(null);
+        histories.set(test.name, outcomes);
+      }
+      outcomes[index] = getTestOutcome(test).passed;
+    }
+  });
+
+  return Array.from(histories.entries())
+    .map(([name, outcomes]) => {
+      const present = outcomes.filter((o): o is boolean => o !== null);
+      let flips = 0;
+      for (let i = 1; i < present.length; i++) {
+        if (present[i] !== present[i - 1]) flips++;
+      }
+      return { name, outcomes, flips, flaky: flips >= 2 };
+    })
+    .sort((a, b) => b.flips - a.flips || a.name.localeCompare(b.name));
+}
+
+export interface StoredRun {
+  id: string;
+  label: string;
+  savedAt: number;
+  results: NormalizedRun;
+}
+
+export interface TestHistoryEntry {
+  id: string;
+  label: string;
+  time: number;
+  // null when the test is not in that run.
+  outcome: TestOutcome | null;
+}
+
+// One test across stored runs, oldest first. A run is placed by the time in
+// its configuration, or by when it was saved when it has none.
+export function buildTestHistory(runs: StoredRun[], testName: string): TestHistoryEntry[] {
+  return runs
+    .map((run) => {
+      const test = run.results.tests.find((t) => t.name === testName);
+      return {
+        id: run.id,
+        label: run.label,
+        time: getRunTimestamp(run.results.configuration) ?? run.savedAt,
+        outcome: test ? getTestOutcome(test) : null,
+      };
+    })
+    .sort((a, b) => a.time - b.time);
+}
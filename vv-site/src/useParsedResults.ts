@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { SessionInfo } from './sessions';
+import { useRawResults } from './useRawResults';
+import { ParseProgress, ParsedResultsWithoutLogs, isAbortError, parseShared } from './backgroundParse';
+
+export interface ParsedPageResults {
+  parsed: ParsedResultsWithoutLogs | null;
+  session: SessionInfo | null;
+  // Why there is nothing to show: the session could not be read or the file
+  // could not be parsed.
+  error: string | null;
+  progress: ParseProgress | null;
+  cancel: () => void;
+}
+
+// The page's result file (see useRawResults), parsed off the main thread
+// without its logs. Pages showing the same file share one parse.
+export function useParsedResults(): ParsedPageResults {
+  const { rawJson, session, error } = useRawResults();
+  const [parsed, setParsed] = useState<ParsedResultsWithoutLogs | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [cancel, setCancel] = useState<() => void>(() => () => undefined);
+
+  useEffect(() => {
+    setParsed(null);
+    setParseError(null);
+    if (!rawJson) return;
+
+    // A job for an earlier file settles after its successor started; it must
+    // not touch the state. Only the Cancel button reports a cancellation.
+    let stale = false;
+    const job = parseShared(rawJson, (p) => !stale && setProgress(p));
+    setCancel(() => job.cancel);
+    job.promise
+      .then((result) => !stale && setParsed(result))
+      .catch((e: Error) => !stale && setParseError(isAbortError(e) ? 'Loading was cancelled.' : e.message))
+      .finally(() => !stale && setProgress(null));
+    return () => {
+      stale = true;
+    };
+  }, [rawJson]);
+
+  return { parsed, session, error: error ?? parseError, progress, cancel };
+}
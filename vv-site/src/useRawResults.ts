@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useParams } from 'react-router-dom';
+import { SessionInfo, loadSession } from './sessions';
+
+export interface RawResults {
+  rawJson: string | null;
+  session: SessionInfo | null;
+  // Why there is nothing to show, once loading has finished.
+  error: string | null;
+}
+
+// The result file for a page reached as "#/<page>/:sessionId", read from the
+// session store, or the text passed in navigation state by older links.
+export function useRawResults(): RawResults {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const location = useLocation();
+  const stateJson = (location.state as { rawJson?: string } | null)?.rawJson ?? null;
+  const [loaded, setLoaded] = useState<RawResults>({ rawJson: null, session: null, error: null });
+
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    setLoaded({ rawJson: null, session: null, error: null });
+    loadSession(sessionId)
+      .then((stored) => {
+        if (cancelled) return;
+        setLoaded(stored
+          ? { rawJson: stored.rawJson, session: stored.info, error: null }
+          : { rawJson: null, session: null, error: 'This session no longer exists. It may have been deleted or saved in another browser.' });
+      })
+      .catch((e: Error) => !cancelled && setLoaded({ rawJson: null, session: null, error: e.message }));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  if (sessionId) return loaded;
+  return { rawJson: stateJson, session: null, error: stateJson ? null : 'No results loaded. Upload a file on the summary page first.' };
+}
@@ -0,0 +1,17 @@
+import { visibleRange } from './virtualRows';
+
+test('renders the rows in view plus the overscan', () => {
+  // 10000 rows of 30px in a 600px viewport, scrolled to row 100.
+  expect(visibleRange(10000, 30, 3000, 600, 5)).toEqual({
+    start: 95,
+    end: 125,
+    padTop: 95 * 30,
+    padBottom: (10000 - 125) * 30,
+  });
+});
+
+test('clamps the range at both ends of the list', () => {
+  expect(visibleRange(8, 30, 0, 600)).toEqual({ start: 0, end: 8, padTop: 0, padBottom: 0 });
+  // The list shrank after filtering while scrolled far down.
+  expect(visibleRange(3, 30, 9000, 600)).toEqual({ start: 3, end: 3, padTop: 90, padBottom: 0 });
+});
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+
+export interface VisibleRange {
+  // Rows [start, end) are rendered; the padding stands in for the others.
+  start: number;
+  end: number;
+  padTop: number;
+  padBottom: number;
+}
+
+// The rows of a fixed-row-height list that are in view, plus `overscan` rows
+// either side so fast scrolling does not show blank space.
+export function visibleRange(
+  rowCount: number,
+  rowHeight: number,
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = 10
+): VisibleRange {
+  const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+  const start = Math.min(rowCount, Math.max(0, first - overscan));
+  const end = Math.min(rowCount, first + Math.ceil(viewportHeight / rowHeight) + overscan);
+  return {
+    start,
+    end: Math.max(start, end),
+    padTop: start * rowHeight,
+    padBottom: Math.max(0, rowCount - Math.max(start, end)) * rowHeight,
+  };
+}
+
+// Tracks the scroll position of a container of fixed-height rows; pass
+// `onScroll` to the container and render only rows [start, end).
+export function useVirtualRows(rowCount: number, rowHeight: number, viewportHeight: number) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const onScroll = (e: React.UIEvent<HTMLElement>) => setScrollTop(e.currentTarget.scrollTop);
+  return { ...visibleRange(rowCount, rowHeight, scrollTop, viewportHeight), onScroll };
+}
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+// Node entry point for cli.ts. Built to build-cli/ by `npm run build-cli`.
+import * as fs from 'fs';
+import { runCli } from './cli';
+
+process.exitCode = runCli(process.argv.slice(2), {
+  readFile: (path) => fs.readFileSync(path, 'utf8'),
+  writeFile: (path, content) => fs.writeFileSync(path, content),
+  print: (line) => console.log(line),
+});
@@ -0,0 +1,107 @@
+// A small XML reader for the JUnit and CTest importers. It runs without
+// DOMParser, so the same code works in tests and outside the browser.
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  // Concatenated text and CDATA directly inside the element.
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function position(text: string, index: number): string {
+  const before = text.slice(0, index).split('\n');
+  return `line ${before.length}, column ${before[before.length - 1].length + 1}`;
+}
+
+const START_TAG = /<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export function parseXml(text: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let i = 0;
+
+  const fail = (message: string, at = i): never => {
+    throw new Error(`Malformed XML at ${position(text, at)}: ${message}`);
+  };
+  const skipPast = (terminator: string, what: string) => {
+    const end = text.indexOf(terminator, i);
+    if (end < 0) fail(`unterminated ${what}`);
+    const body = text.slice(i, end);
+    i = end + terminator.length;
+    return body;
+  };
+
+  while (i < text.length) {
+    const lt = text.indexOf('<', i);
+    const chunk = text.slice(i, lt < 0 ? text.length : lt);
+    if (stack.length > 0) stack[stack.length - 1].text += decodeEntities(chunk);
+    else if (chunk.trim()) fail('text outside the root element');
+    if (lt < 0) break;
+    i = lt;
+
+    if (text.startsWith('<?', i)) {
+      skipPast('?>', 'processing instruction');
+    } else if (text.startsWith('<!--', i)) {
+      skipPast('-->', 'comment');
+    } else if (text.startsWith('<![CDATA[', i)) {
+      if (stack.length === 0) fail('CDATA outside the root element');
+      i += '<![CDATA['.length;
+      stack[stack.length - 1].text += skipPast(']]>', 'CDATA section');
+    } else if (text.startsWith('<!', i)) {
+      skipPast('>', 'declaration');
+    } else if (text.startsWith('</', i)) {
+      const start = i;
+      const name = skipPast('>', 'end tag').slice(2).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) fail(`unexpected </${name}>${open ? `, expected </${open.name}>` : ''}`, start);
+    } else {
+      START_TAG.lastIndex = i;
+      const match = START_TAG.exec(text);
+      if (!match) fail('invalid start tag');
+      const [whole, name, attributeText, selfClosing] = match as RegExpExecArray;
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+      let attribute: RegExpExecArray | null;
+      ATTRIBUTE.lastIndex = 0;
+      while ((attribute = ATTRIBUTE.exec(attributeText))) {
+        element.attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+
+      if (stack.length > 0) stack[stack.length - 1].children.push(element);
+      else if (root) fail('more than one root element');
+      else root = element;
+
+      if (!selfClosing) stack.push(element);
+      i += whole.length;
+    }
+  }
+
+  if (stack.length > 0) fail(`missing </${stack[stack.length - 1].name}>`, text.length);
+  if (!root) fail('no root element', 0);
+  return root as XmlElement;
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((c) => c.name === name);
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((c) => c.name === name);
+}
+
+// Every descendant with the given name, in document order.
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap((c) => (c.name === name ? [c] : []).concat(findElements(c, name)));
+}